@@ -0,0 +1,126 @@
+import express, { Request, Response } from 'express';
+import { zipSync } from 'fflate';
+import { parseProject, ProjectFormatError } from '../src/projectSchema';
+import { renderBeat } from '../src/sceneRenderer';
+import { SceneState } from '../src/types';
+import { nodeEnvironment, registerProjectFonts, encodePng } from './nodeEnvironment';
+
+// Renders saved projects to PNG without a browser, for screenshot and localization QA pipelines.
+//
+//   POST /render?beat=2&width=1920&height=1080   project JSON in, PNG of one beat out
+//   POST /render/batch                           a project or an array of projects in, ZIP of every beat out
+//
+// Size defaults to the project's export size and beat to the one selected when it was saved.
+// ?language=ja renders that track alone instead of the tracks the project was saved showing;
+// the batch route also takes ?language=all for one folder per track.
+
+const PORT = Number(process.env.PORT) || 3001;
+// Loopback only unless HOST says otherwise, e.g. HOST=0.0.0.0 inside a container
+const HOST = process.env.HOST || '127.0.0.1';
+// Largest request body, in express's size syntax
+const BODY_LIMIT = process.env.BODY_LIMIT || '50mb';
+const MAX_DIMENSION = 8192;
+
+class RequestError extends Error {}
+
+function sizeParam(req: Request, name: 'width' | 'height', fallback: number) {
+  const raw = req.query[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_DIMENSION) {
+    throw new RequestError(`${name} must be a whole number from 1 to ${MAX_DIMENSION}`);
+  }
+  return value;
+}
+
+function readProject(body: unknown, label = '') {
+  try {
+    return parseProject(body).state;
+  } catch (err) {
+    if (err instanceof ProjectFormatError) throw new RequestError(label ? `${label} ${err.message}` : err.message);
+    throw err;
+  }
+}
+
+function withLanguage(state: SceneState, code: string): SceneState {
+  if (!state.languages.some(l => l.code === code)) {
+    throw new RequestError(`language must be one of ${state.languages.map(l => l.code).join(', ')}`);
+  }
+  return { ...state, display: { primary: code, secondary: null } };
+}
+
+function languageVariants(req: Request, state: SceneState): { folder: string, state: SceneState }[] {
+  const raw = req.query.language;
+  if (raw === undefined) return [{ folder: '', state }];
+  if (typeof raw !== 'string') throw new RequestError('language must be given once');
+  if (raw === 'all') return state.languages.map(l => ({ folder: `${l.code}/`, state: withLanguage(state, l.code) }));
+  return [{ folder: '', state: withLanguage(state, raw) }];
+}
+
+async function renderToPng(project: SceneState, beatIndex: number, width: number, height: number) {
+  const { state, availableFonts } = registerProjectFonts(project);
+  const canvas = await renderBeat(state, beatIndex, { width, height, availableFonts, environment: nodeEnvironment });
+  return encodePng(canvas);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function handle(route: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response) => {
+    route(req, res).catch(err => {
+      if (err instanceof RequestError) {
+        res.status(400).json({ error: err.message });
+      } else {
+        console.error(err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Render failed' });
+      }
+    });
+  };
+}
+
+const app = express();
+// Projects inline their images and fonts as data URLs
+app.use(express.json({ limit: BODY_LIMIT }));
+
+app.post('/render', handle(async (req, res) => {
+  let state = readProject(req.body);
+  if (req.query.language !== undefined) {
+    if (typeof req.query.language !== 'string') throw new RequestError('language must be given once');
+    state = withLanguage(state, req.query.language);
+  }
+  let beatIndex = state.currentBeat;
+  if (req.query.beat !== undefined) {
+    const beat = Number(req.query.beat);
+    if (!Number.isInteger(beat) || beat < 1 || beat > state.beats.length) {
+      throw new RequestError(`beat must be from 1 to ${state.beats.length}`);
+    }
+    beatIndex = beat - 1;
+  }
+  const png = await renderToPng(state, beatIndex, sizeParam(req, 'width', state.exportSize.width), sizeParam(req, 'height', state.exportSize.height));
+  res.type('png').send(png);
+}));
+
+app.post('/render/batch', handle(async (req, res) => {
+  const projects = Array.isArray(req.body)
+    ? req.body.map((body, i) => readProject(body, `Scene ${i + 1}:`))
+    : [readProject(req.body)];
+  if (projects.length === 0) throw new RequestError('Send a project or a non-empty array of projects');
+
+  const files: Record<string, Uint8Array> = {};
+  for (const [sceneIndex, state] of projects.entries()) {
+    const width = sizeParam(req, 'width', state.exportSize.width);
+    const height = sizeParam(req, 'height', state.exportSize.height);
+    for (const variant of languageVariants(req, state)) {
+      for (let i = 0; i < state.beats.length; i++) {
+        const name = `${variant.folder}beat-${pad(i + 1)}.png`;
+        files[projects.length > 1 ? `scene-${pad(sceneIndex + 1)}/${name}` : name] = await renderToPng(variant.state, i, width, height);
+      }
+    }
+  }
+  // PNGs are already compressed, so entries are stored as-is
+  res.type('application/zip').attachment('vn-scene-renders.zip').send(Buffer.from(zipSync(files, { level: 0 })));
+}));
+
+app.listen(PORT, HOST, () => {
+  console.log(`Render server listening on http://${HOST}:${PORT}`);
+});
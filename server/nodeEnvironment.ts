@@ -0,0 +1,61 @@
+import { createHash } from 'node:crypto';
+import { Canvas, GlobalFonts, Path2D, createCanvas, loadImage } from '@napi-rs/canvas';
+import { RenderEnvironment, RenderImage } from '../src/renderEnvironment';
+import { SceneState } from '../src/types';
+
+const registeredFonts = new Set<string>();
+
+function dataUrlToBuffer(src: string) {
+  const match = src.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (!match) throw new Error('Only data: URLs can be rendered; the server never fetches remote files.');
+  return match[1] ? Buffer.from(match[2], 'base64') : Buffer.from(decodeURIComponent(match[2]));
+}
+
+// Skia canvases implement the 2D context API the renderer uses, under their own type names
+export const nodeEnvironment: RenderEnvironment = {
+  createCanvas(width, height) {
+    return createCanvas(width, height) as unknown as HTMLCanvasElement;
+  },
+  async loadImage(src) {
+    return await loadImage(dataUrlToBuffer(src)) as unknown as RenderImage;
+  },
+  createPath(d) {
+    return new Path2D(d) as unknown as globalThis.Path2D;
+  },
+  async fontsReady() {
+    // Fonts registered with GlobalFonts are usable immediately
+  },
+};
+
+// Points every fontFamily in the project (styles, language styles and template overrides) at its alias
+function withFontAliases(value: unknown, aliases: Map<string, string>): unknown {
+  if (Array.isArray(value)) return value.map(item => withFontAliases(item, aliases));
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    const isFamily = (key === 'fontFamily' || key.endsWith('.fontFamily')) && typeof item === 'string';
+    return [key, isFamily ? aliases.get(item) ?? item : withFontAliases(item, aliases)];
+  }));
+}
+
+// Registers the project's custom fonts and returns the project drawing with them, plus the families that can be drawn.
+// GlobalFonts is shared by every request for the life of the process, so each font is registered under an alias
+// made from its content: two projects with different files under the same family name each get their own.
+export function registerProjectFonts(state: SceneState) {
+  const aliases = new Map<string, string>();
+  state.fonts.forEach(font => {
+    const key = createHash('sha1').update(font.data).digest('hex');
+    const alias = `vn-font-${key}`;
+    if (registeredFonts.has(key) || GlobalFonts.register(dataUrlToBuffer(font.data), alias)) {
+      registeredFonts.add(key);
+      aliases.set(font.family, alias);
+    }
+  });
+  return {
+    state: withFontAliases(state, aliases) as SceneState,
+    availableFonts: new Set(aliases.values())
+  };
+}
+
+export async function encodePng(canvas: HTMLCanvasElement) {
+  return (canvas as unknown as Canvas).encode('png');
+}
@@ -1,91 +1,98 @@
-import React, { useState, useRef, useEffect } from 'react';
-import html2canvas from 'html2canvas';
-import { Download, Upload, Save, FolderOpen, Image as ImageIcon, Type, Palette, Settings2, ChevronDown, ChevronUp, LayoutTemplate, Plus, Trash2 } from 'lucide-react';
-
-interface TextStyle {
-  fontFamily: string;
-  fontSize: number;
-  color: string;
-  hasOutline: boolean;
-  isItalic: boolean;
-}
-
-interface BoxStyle {
-  type: 'gradient' | 'solid' | 'fantasy' | 'romance';
-  backgroundColor: string;
-  opacity: number;
-  padding: number;
-  textAlign: 'left' | 'center' | 'right';
-}
-
-interface UITemplate {
-  id: string;
-  name: string;
-  nameStyle: TextStyle;
-  dialogueStyle: TextStyle;
-  secondaryDialogueStyle: TextStyle;
-  boxStyle: BoxStyle;
-}
-
-interface SceneState {
-  image: string | null;
-  imageScale: 'fit' | 'original';
-  characterName: string;
-  dialogue: string;
-  secondaryDialogue: string;
-  template: UITemplate;
-  savedTemplates: UITemplate[];
-}
-
-const DEFAULT_TEMPLATES: UITemplate[] = [
-  {
-    id: 'cinematic',
-    name: 'Cinematic (Default)',
-    nameStyle: { fontFamily: 'sans-serif', fontSize: 24, color: '#ffffff', hasOutline: true, isItalic: false },
-    dialogueStyle: { fontFamily: 'sans-serif', fontSize: 32, color: '#ffffff', hasOutline: true, isItalic: false },
-    secondaryDialogueStyle: { fontFamily: 'sans-serif', fontSize: 20, color: '#cccccc', hasOutline: true, isItalic: true },
-    boxStyle: { type: 'gradient', backgroundColor: '#000000', opacity: 80, padding: 20, textAlign: 'left' }
-  },
-  {
-    id: 'fantasy',
-    name: 'Fantasy RPG',
-    nameStyle: { fontFamily: 'serif', fontSize: 28, color: '#ffd700', hasOutline: true, isItalic: false },
-    dialogueStyle: { fontFamily: 'serif', fontSize: 28, color: '#ffffff', hasOutline: true, isItalic: false },
-    secondaryDialogueStyle: { fontFamily: 'serif', fontSize: 18, color: '#cccccc', hasOutline: true, isItalic: true },
-    boxStyle: { type: 'fantasy', backgroundColor: '#1a1a1a', opacity: 90, padding: 15, textAlign: 'left' }
-  },
-  {
-    id: 'romance',
-    name: 'Romance / Otome',
-    nameStyle: { fontFamily: 'serif', fontSize: 26, color: '#ff69b4', hasOutline: false, isItalic: false },
-    dialogueStyle: { fontFamily: 'sans-serif', fontSize: 28, color: '#333333', hasOutline: false, isItalic: false },
-    secondaryDialogueStyle: { fontFamily: 'sans-serif', fontSize: 18, color: '#666666', hasOutline: false, isItalic: true },
-    boxStyle: { type: 'romance', backgroundColor: '#ffffff', opacity: 85, padding: 10, textAlign: 'center' }
-  }
-];
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Download, Upload, Save, FolderOpen, Image as ImageIcon, Type, Palette, Settings2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, LayoutTemplate, Plus, Trash2, Copy, ArrowLeft, ArrowRight, Images, Users, FlipHorizontal, BringToFront, SendToBack, X, FileText, AlertTriangle, Code, Play, Square, Film, History as HistoryIcon, Undo2, Redo2, LibraryBig, Languages, Grid3x3, Scan, Columns3 } from 'lucide-react';
+import { parseScript, ScriptImportResult } from './scriptImport';
+import { DEFAULT_TEMPLATES, resolveBeatTemplate, templateLibrary, templateOverrides, applyTemplateOverrides, resolveTemplate, currentOverrides, withSavedTemplates } from './templates';
+import { parseProject, serializeProject, ProjectFormatError, parseTemplateFile, serializeTemplateFile, TEMPLATE_FILE_EXTENSION } from './projectSchema';
+import { ProjectSummary, listProjects, saveProject, loadProject, renameProject, duplicateProject, deleteProject } from './projectLibrary';
+import { useHistory } from './history';
+import { CHOICE_OPTION_LIMITS, generateId, createBeat, resolveBeatImage, hexToRgba } from './scene';
+import { createCharacter, createSprite, findCharacter, characterNameStyle, withSpeakerNames, renameSpeaker } from './characters';
+import { BackgroundFilter, BackgroundFilterType, BackgroundView, BacklogEntry, BacklogStyle, HudStyle, QuickMenuButton, TextStyle, TextStyleKey, BoxStyle, NamePlateStyle, TextLimits, ExportSize, LanguageStyle, TrackDisplay, ChoiceStyle, ChoiceOption, UITemplate, SceneCharacter, SpriteLayer, SceneBeat, SceneState, NineSliceFrame } from './types';
+import { ENGINE_EXPORTERS, getEngineExporter } from './engineExport';
+import { DEFAULT_TYPEWRITER, buildLineTiming, lineRevealAt } from './typewriter';
+import { AnimationFormat, GIF_MAX_WIDTH, animationSize, createGifWriter, createWebmWriter } from './animationExport';
+import { DEFAULT_SLICE_INSET, drawNineSlice, loadImage } from './nineSlice';
+import { zipSync } from 'fflate';
+import { renderBeat, canvasToBlob, measureTextbox, measureBacklog, PageEntry, ASPECT_RATIOS, EXPORT_RESOLUTIONS, aspectRatioOf } from './sceneRenderer';
+import { BACKGROUND_FILTERS, DEFAULT_BACKGROUND_VIEW, ZOOM_RANGE, MIN_CROP_SIZE, backgroundFilterCss, backgroundFilterStages, backgroundPlacement, createBackgroundFilter, resolveBeatBackground, vignetteCss } from './background';
+import { HUD_BADGE_BACKGROUND, HUD_BADGE_PADDING_X, HUD_BADGE_PADDING_Y, HUD_ICON_OUTLINE, HUD_ICON_STROKE, HUD_ICON_VIEWBOX, QUICK_MENU_BUTTONS, hudBadgeLabel, hudBadgeSide, hudPlacement } from './hud';
+import { ACTION_SAFE_INSET, GuideSettings, TITLE_SAFE_INSET, loadGuides, saveGuides } from './guides';
+import { TextOverflow, checkBeatOverflow, scanProjectOverflow } from './textOverflow';
+import { LANGUAGE_PRESETS, DEFAULT_LANGUAGE_STYLE, isLanguageCode, languageName, trackText, speakerName, sceneSpeakers, displayedLines, languageTextStyle, renameLanguageCode, removeLanguage, languageUsage } from './languages';
+import { LocalizationDiff, LocalizationFormat, LocalizationFormatError, exportCsv, exportXliff, diffLocalization, applyLocalization } from './localization';
+import { parseRichText, plainText, firstShakeIndex, resolveRunStyle, RUBY_SCALE } from './richText';
+import { PREVIEW_REFERENCE_WIDTH, BACKLOG_SCROLLBAR_WIDTH, BACKLOG_THUMB_ALPHA, BACKLOG_TRACK_ALPHA, BOX_DECORATIONS, BOX_MARGIN, CONTENT_INSET, GRADIENT_BAND_FADE, LINE_HEIGHT, TEXT_BLOCK_GAP, SPRITE_HEIGHT, SPRITE_DIM_AMOUNT, textShadowCss, sceneHeight, textboxPadding, namePlatePadding, namePlatePlacement } from './layout';
+import { FONTS, FALLBACK_FONT, isGenericFont, readFontFile, registerFont, fontStack, templateFontFamilies, collectTemplateFonts, mergeFonts } from './fonts';
 
 const defaultState: SceneState = {
-  image: null,
   imageScale: 'fit',
-  characterName: 'Character Name',
-  dialogue: 'This is an example of dialogue text.',
-  secondaryDialogue: 'これはダイアログテキストの例です。',
+  exportSize: { width: 1920, height: 1080 },
+  beats: [
+    createBeat({
+      characterName: 'Character Name',
+      text: {
+        en: 'This is an example of dialogue text.',
+        ja: 'これはダイアログテキストの例です。'
+      }
+    })
+  ],
+  currentBeat: 0,
+  languages: [LANGUAGE_PRESETS[0], LANGUAGE_PRESETS[1]],
+  display: { primary: 'en', secondary: 'ja' },
+  characters: [],
+  typewriter: DEFAULT_TYPEWRITER,
+  fonts: [],
   template: DEFAULT_TEMPLATES[0],
   savedTemplates: []
 };
 
-const FONTS = [
-  { label: 'Sans-serif (Modern)', value: 'sans-serif' },
-  { label: 'Serif (Classic)', value: 'serif' },
-  { label: 'Monospace (Retro)', value: 'monospace' },
-  { label: 'System UI', value: 'system-ui' },
+const LEGACY_AUTOSAVE_KEY = 'vn-mockup-autosave-v2';
+const CURRENT_PROJECT_KEY = 'vn-mockup-current-project';
+const AUTOSAVE_DELAY = 800;
+const THUMBNAIL_WIDTH = 320;
+
+// Frame rate for animated exports; frames where no new character appears are merged unless {shake} text is moving
+const ANIMATION_FPS = 20;
+
+// Lowercase and dashed, for download file names
+const fileSlug = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+
+const SPRITE_SNAP_POINTS = [
+  { label: 'Left', x: 25 },
+  { label: 'Center', x: 50 },
+  { label: 'Right', x: 75 },
+];
+
+const NAME_PLATE_ANCHORS: { label: string, options: { value: NamePlateStyle['anchor'], label: string }[] }[] = [
+  { label: 'Above Box', options: [{ value: 'above-left', label: 'Above, Left' }, { value: 'above-center', label: 'Above, Centered' }, { value: 'above-right', label: 'Above, Right' }] },
+  { label: 'On Box Edge', options: [{ value: 'edge-left', label: 'On Edge, Left' }, { value: 'edge-center', label: 'On Edge, Centered' }, { value: 'edge-right', label: 'On Edge, Right' }] },
+  { label: 'Inside Box', options: [{ value: 'inset-left', label: 'Inset, Left' }, { value: 'inset-center', label: 'Inset, Centered' }, { value: 'inset-right', label: 'Inset, Right' }] },
 ];
 
-function hexToRgba(hex: string, alpha: number) {
-  const r = parseInt(hex.slice(1, 3), 16) || 0;
-  const g = parseInt(hex.slice(3, 5), 16) || 0;
-  const b = parseInt(hex.slice(5, 7), 16) || 0;
-  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+// Nine-slice images a template can hold: the textbox frame and the name plate
+type FrameTarget = 'box' | 'namePlate';
+
+function templateFrame(template: UITemplate, target: FrameTarget) {
+  return (target === 'box' ? template.boxStyle.frame : template.namePlate.frame) ?? null;
+}
+
+function withTemplateFrame(template: UITemplate, target: FrameTarget, frame: NineSliceFrame | null): UITemplate {
+  return target === 'box'
+    ? { ...template, boxStyle: { ...template.boxStyle, frame } }
+    : { ...template, namePlate: { ...template.namePlate, frame } };
+}
+
+// Text styles the style tabs edit; the HUD's lives inside its own section
+type StyleTarget = TextStyleKey | 'hud';
+
+function templateTextStyle(template: UITemplate, target: StyleTarget) {
+  return target === 'hud' ? template.hud.textStyle : template[target];
+}
+
+function withTemplateTextStyle(template: UITemplate, target: StyleTarget, updates: Partial<TextStyle>): UITemplate {
+  return target === 'hud'
+    ? { ...template, hud: { ...template.hud, textStyle: { ...template.hud.textStyle, ...updates } } }
+    : { ...template, [target]: { ...template[target], ...updates } };
 }
 
 function Accordion({ title, icon: Icon, children, defaultOpen = false }: { title: string, icon: any, children: React.ReactNode, defaultOpen?: boolean }) {
@@ -107,48 +114,639 @@ function Accordion({ title, icon: Icon, children, defaultOpen = false }: { title
   );
 }
 
+// Canvas rather than CSS border-image, so the preview slices exactly like the export renderer
+function NineSliceCanvas({ frame, opacity = 1 }: { frame: NineSliceFrame, opacity?: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let image: HTMLImageElement | null = null;
+    let cancelled = false;
+    const draw = () => {
+      if (!image || cancelled) return;
+      const width = canvas.offsetWidth;
+      const height = canvas.offsetHeight;
+      // At least 2x so borders stay crisp when the preview stage is scaled up
+      const ratio = Math.max(window.devicePixelRatio || 1, 2);
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      const ctx = canvas.getContext('2d')!;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawNineSlice(ctx, image, frame, 0, 0, width, height, ratio);
+    };
+    loadImage(frame.image).then(loaded => {
+      image = loaded;
+      draw();
+    }).catch(err => console.error('Failed to load frame image', err));
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [frame]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" style={{ opacity }} />;
+}
+
 export default function App() {
-  const [state, setState] = useState<SceneState>(() => {
-    const saved = localStorage.getItem('vn-mockup-autosave-v2');
+  // The single localStorage autosave from before the library; it becomes the first library project
+  const { state, setState, entries: historyEntries, index: historyIndex, canUndo, canRedo, undo, redo, jumpTo, reset: resetHistory } = useHistory<SceneState>(() => {
+    const saved = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
     if (saved) {
       try {
-        return JSON.parse(saved);
+        const { state: restored, ignoredFields } = parseProject(JSON.parse(saved));
+        if (ignoredFields.length > 0) console.warn('Autosave fields ignored:', ignoredFields);
+        return restored;
       } catch (e) {
+        // Keep the unreadable autosave around instead of overwriting it with the default scene
+        localStorage.setItem(`${LEGACY_AUTOSAVE_KEY}-failed`, saved);
         console.error('Failed to load autosave', e);
       }
     }
     return defaultState;
-  });
+  // Which tracks are on screen is a view choice, like the selected beat, so it isn't undoable
+  }, { untracked: ['currentBeat', 'display'] });
 
-  const [styleTab, setStyleTab] = useState<'template'|'name'|'dialogue'|'secondary'|'box'>('template');
+  const [styleTab, setStyleTab] = useState<'template'|'name'|'plate'|'dialogue'|'secondary'|'box'|'choice'|'hud'|'backlog'|'languages'>('template');
+  const [newLanguage, setNewLanguage] = useState({ code: '', name: '' });
+  // Codes being edited, keyed by the track's current code; applied on blur
+  const [codeDrafts, setCodeDrafts] = useState<Record<string, string>>({});
+  const [translationFormat, setTranslationFormat] = useState<LocalizationFormat>('csv');
+  // XLIFF is bilingual: the primary track is the source and this the target
+  const [translationTarget, setTranslationTarget] = useState('');
+  const [localizationDiff, setLocalizationDiff] = useState<(LocalizationDiff & { fileName: string }) | null>(null);
   const [newTemplateName, setNewTemplateName] = useState('');
+  // Template a newly saved one extends; '' saves a standalone copy
+  const [newTemplateParentId, setNewTemplateParentId] = useState(() => templateLibrary(state).some(t => t.id === state.template.id) ? state.template.id : '');
+  const [newCharacterName, setNewCharacterName] = useState('');
+  // Names being edited, keyed by character id; applied on blur
+  const [characterNameDrafts, setCharacterNameDrafts] = useState<Record<string, string>>({});
+  const [expandedCharacterId, setExpandedCharacterId] = useState<string | null>(null);
+  // Highlighted suggestion in the speaker picker; null while it is closed
+  const [speakerHighlight, setSpeakerHighlight] = useState<number | null>(null);
+  const [backlogPaste, setBacklogPaste] = useState('');
+  const [newExpressionNames, setNewExpressionNames] = useState<Record<string, string>>({});
+  const [selectedSpriteId, setSelectedSpriteId] = useState<string | null>(null);
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [engineTarget, setEngineTarget] = useState(ENGINE_EXPORTERS[0].id);
+  const [importReport, setImportReport] = useState<(ScriptImportResult & { fileName: string }) | null>(null);
+  // Elapsed playback time of the current line; null shows the whole line at once
+  const [revealTime, setRevealTime] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playStartedAt, setPlayStartedAt] = useState(0);
+  const [animationProgress, setAnimationProgress] = useState<string | null>(null);
+  // Overflow report resolution: an EXPORT_RESOLUTIONS label, or 'project' for the export size
+  const [reportResolution, setReportResolution] = useState('project');
+  const [overflowReport, setOverflowReport] = useState<{ size: ExportSize, overflows: TextOverflow[] } | null>(null);
+  const [loadedFonts, setLoadedFonts] = useState<Set<string>>(new Set());
+  const [failedFonts, setFailedFonts] = useState<Set<string>>(new Set());
+  // The preview is laid out at the reference width and scaled to fit the editor
+  const [stageScale, setStageScale] = useState(1);
+  const [guides, setGuides] = useState<GuideSettings>(loadGuides);
+  const [library, setLibrary] = useState<ProjectSummary[]>([]);
+  const [currentProject, setCurrentProject] = useState<ProjectSummary | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  // Opening the last project replaces the whole scene, so editing waits until it's done
+  const [libraryLoading, setLibraryLoading] = useState(true);
 
   const previewRef = useRef<HTMLDivElement>(null);
+  const stageContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const projectInputRef = useRef<HTMLInputElement>(null);
+  const expressionInputRef = useRef<HTMLInputElement>(null);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+  const translationInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const frameInputRef = useRef<HTMLInputElement>(null);
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const frameTargetRef = useRef<FrameTarget>('box');
+  // Receives the family of an uploaded font, for the style whose upload button was used
+  const fontTargetRef = useRef<((updates: Partial<TextStyle>) => void) | null>(null);
+  const requestedFontsRef = useRef<Set<string>>(new Set());
+  const expressionTargetRef = useRef<{ characterId: string, name: string } | null>(null);
+  const spriteDragRef = useRef<{ id: string, startX: number, startY: number, originX: number, originY: number } | null>(null);
+  const backgroundDragRef = useRef<{ startX: number, startY: number, originX: number, originY: number } | null>(null);
+  // Natural size of the background image on stage, which the preview needs to crop and place it like the renderer
+  const [backgroundSize, setBackgroundSize] = useState<{ src: string, width: number, height: number } | null>(null);
+  const lineDurationRef = useRef(0);
+  const libraryInitRef = useRef(false);
+  // Last state written to or read from the library, so opening a project doesn't count as an edit
+  const savedStateRef = useRef<SceneState | null>(null);
 
   useEffect(() => {
-    localStorage.setItem('vn-mockup-autosave-v2', JSON.stringify(state));
-  }, [state]);
+    if (libraryInitRef.current) return;
+    libraryInitRef.current = true;
+    (async () => {
+      const projects = await listProjects();
+      const lastId = localStorage.getItem(CURRENT_PROJECT_KEY);
+      const target = projects.find(p => p.id === lastId) ?? projects[0];
+      if (target) {
+        await openProject(target);
+      } else {
+        await createProject(state, 'Untitled Project');
+        localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+      }
+    })().catch(err => {
+      console.error('Failed to open project library', err);
+      setLibraryError('The project library is unavailable, so changes are not being saved.');
+    }).finally(() => setLibraryLoading(false));
+  }, []);
+
+  // Saves a moment after the last edit; the thumbnail is rendered at the same time
+  useEffect(() => {
+    if (!currentProject || state === savedStateRef.current) return;
+    const timer = setTimeout(() => {
+      if (state === savedStateRef.current) return;
+      persistProject(currentProject, state).catch(err => {
+        console.error('Autosave failed', err);
+        setLibraryError('Autosave failed. Export the project as JSON to keep your changes.');
+      });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [state, currentProject]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const elapsed = performance.now() - playStartedAt;
+      setRevealTime(Math.min(elapsed, lineDurationRef.current));
+      if (elapsed < lineDurationRef.current) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, playStartedAt]);
+
+  useEffect(() => {
+    state.fonts.forEach(font => {
+      if (requestedFontsRef.current.has(font.family)) return;
+      requestedFontsRef.current.add(font.family);
+      registerFont(font)
+        .then(() => setLoadedFonts(prev => new Set(prev).add(font.family)))
+        .catch(err => {
+          console.error(`Failed to load font "${font.family}"`, err);
+          setFailedFonts(prev => new Set(prev).add(font.family));
+        });
+    });
+  }, [state.fonts]);
+
+  useEffect(() => {
+    saveGuides(guides);
+  }, [guides]);
+
+  useEffect(() => {
+    const container = stageContainerRef.current;
+    if (!container) return;
+    const fit = () => {
+      const ratio = state.exportSize.height / state.exportSize.width;
+      // 32px of padding on each side, as set by the container's p-8
+      const width = Math.max(container.clientWidth - 64, 1);
+      const height = Math.max(container.clientHeight - 64, 1);
+      setStageScale(Math.min(width, height / ratio) / PREVIEW_REFERENCE_WIDTH);
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [state.exportSize.width, state.exportSize.height]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) step through history everywhere, text fields included,
+  // since controlled inputs lose the browser's own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || libraryLoading) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Each beat plays from the start when navigated to during playback
+  useEffect(() => {
+    if (!isPlaying) return;
+    setRevealTime(0);
+    setPlayStartedAt(performance.now());
+  }, [state.currentBeat]);
 
   const updateState = (updates: Partial<SceneState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
 
-  const updateTemplate = (updates: Partial<UITemplate>) => {
-    setState(prev => ({ ...prev, template: { ...prev.template, ...updates } }));
+  const updateBeat = (updates: Partial<SceneBeat>) => {
+    setState(prev => ({
+      ...prev,
+      beats: prev.beats.map((beat, i) => i === prev.currentBeat ? { ...beat, ...updates } : beat)
+    }));
   };
 
-  const updateTextStyle = (key: 'nameStyle' | 'dialogueStyle' | 'secondaryDialogueStyle', updates: Partial<TextStyle>) => {
+  const updateBeatText = (code: string, value: string) => {
+    setState(prev => ({
+      ...prev,
+      beats: prev.beats.map((beat, i) => i === prev.currentBeat ? { ...beat, text: { ...beat.text, [code]: value } } : beat)
+    }));
+  };
+
+  const goToBeat = (index: number) => {
+    setState(prev => ({ ...prev, currentBeat: Math.min(Math.max(index, 0), prev.beats.length - 1) }));
+  };
+
+  const addBeat = () => {
+    setState(prev => {
+      const current = prev.beats[prev.currentBeat];
+      const beats = [...prev.beats];
+      beats.splice(prev.currentBeat + 1, 0, createBeat({ characterName: current.characterName, templateId: current.templateId, sprites: current.sprites }));
+      return { ...prev, beats, currentBeat: prev.currentBeat + 1 };
+    });
+  };
+
+  const duplicateBeat = () => {
+    setState(prev => {
+      const beats = [...prev.beats];
+      const { id, ...copy } = prev.beats[prev.currentBeat];
+      beats.splice(prev.currentBeat + 1, 0, createBeat(copy));
+      return { ...prev, beats, currentBeat: prev.currentBeat + 1 };
+    });
+  };
+
+  const moveBeat = (direction: -1 | 1) => {
+    setState(prev => {
+      const target = prev.currentBeat + direction;
+      if (target < 0 || target >= prev.beats.length) return prev;
+      const beats = [...prev.beats];
+      [beats[prev.currentBeat], beats[target]] = [beats[target], beats[prev.currentBeat]];
+      return { ...prev, beats, currentBeat: target };
+    });
+  };
+
+  const deleteBeat = () => {
+    setState(prev => {
+      if (prev.beats.length <= 1) return prev;
+      const removed = prev.beats[prev.currentBeat];
+      const beats = prev.beats.filter((_, i) => i !== prev.currentBeat);
+      // Keep the background and its framing on the beat that inherited them
+      const next = beats[prev.currentBeat];
+      if (removed.image && next && !next.image) {
+        beats[prev.currentBeat] = { ...next, image: removed.image, background: next.background ?? resolveBeatBackground(prev.beats, prev.currentBeat) };
+      }
+      return { ...prev, beats, currentBeat: Math.min(prev.currentBeat, beats.length - 1) };
+    });
+  };
+
+  const addLanguage = () => {
+    const code = newLanguage.code.trim();
+    if (!isLanguageCode(code)) {
+      alert(`"${code}" isn't a language code like en, ja or zh-Hans.`);
+      return;
+    }
+    if (state.languages.some(l => l.code === code)) {
+      alert(`There is already a ${code} track.`);
+      return;
+    }
+    setState(prev => ({ ...prev, languages: [...prev.languages, { code, name: newLanguage.name.trim() || code }] }));
+    setNewLanguage({ code: '', name: '' });
+  };
+
+  const updateLanguageName = (code: string, name: string) => {
+    setState(prev => ({ ...prev, languages: prev.languages.map(l => l.code === code ? { ...l, name } : l) }));
+  };
+
+  const commitLanguageCode = (code: string) => {
+    const draft = codeDrafts[code]?.trim();
+    setCodeDrafts(({ [code]: _, ...rest }) => rest);
+    if (draft === undefined || draft === code) return;
+    if (!isLanguageCode(draft)) {
+      alert(`"${draft}" isn't a language code like en, ja or zh-Hans.`);
+      return;
+    }
+    if (state.languages.some(l => l.code === draft)) {
+      alert(`There is already a ${draft} track.`);
+      return;
+    }
+    setState(prev => renameLanguageCode(prev, code, draft), `Changed language code ${code} to ${draft}`);
+  };
+
+  const deleteLanguage = (code: string) => {
+    if (state.languages.length <= 1) return;
+    const usage = languageUsage(state, code);
+    const counts = ([
+      [usage.lines, 'line', 'lines'],
+      [usage.choices, 'choice option', 'choice options'],
+      [usage.backlog, 'backlog entry', 'backlog entries'],
+      [usage.names, 'character name', 'character names'],
+    ] as const).filter(([n]) => n > 0).map(([n, one, many]) => `${n} ${n === 1 ? one : many}`);
+    const list = counts.length > 1 ? `${counts.slice(0, -1).join(', ')} and ${counts[counts.length - 1]}` : counts[0];
+    if (list && !confirm(`Delete the ${languageName(state.languages, code)} track and its ${list}?`)) return;
+    setState(prev => removeLanguage(prev, code), `Deleted language ${code}`);
+  };
+
+  const updateDisplay = (updates: Partial<TrackDisplay>) => {
+    setState(prev => {
+      const display = { ...prev.display, ...updates };
+      // Picking the secondary track as primary swaps the two
+      if (updates.primary && updates.primary === prev.display.secondary) display.secondary = prev.display.primary;
+      return { ...prev, display };
+    });
+  };
+
+  const updateSpeakerName = (name: string, code: string, value: string) => {
+    setState(prev => ({ ...prev, characters: withSpeakerNames(prev.characters, name, { [code]: value }) }));
+  };
+
+  const xliffTarget = state.languages.find(l => l.code === translationTarget && l.code !== state.display.primary)?.code
+    ?? state.languages.find(l => l.code !== state.display.primary)?.code
+    ?? null;
+
+  const handleExportTranslations = () => {
+    const isCsv = translationFormat === 'csv';
+    if (!isCsv && !xliffTarget) return;
+    const content = isCsv
+      ? exportCsv(state)
+      : exportXliff(state, translationFormat === 'xliff-1.2' ? '1.2' : '2.0', state.display.primary, xliffTarget!);
+    const url = URL.createObjectURL(new Blob([content], { type: isCsv ? 'text/csv' : 'application/xliff+xml' }));
+    const link = document.createElement('a');
+    link.download = isCsv ? 'vn-scene-text.csv' : `vn-scene-text-${xliffTarget}.xlf`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportTranslations = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        setLocalizationDiff({ ...diffLocalization(state, event.target?.result as string, file.name), fileName: file.name });
+      } catch (err) {
+        if (!(err instanceof LocalizationFormatError)) console.error('Translation import failed', err);
+        alert(err instanceof LocalizationFormatError ? err.message : 'Failed to read translation file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const applyTranslations = () => {
+    if (!localizationDiff) return;
+    const diff = localizationDiff;
+    setState(prev => applyLocalization(prev, diff), `Imported translations from ${diff.fileName}`);
+    setLocalizationDiff(null);
+  };
+
+  const updateLanguageStyle = (code: string, updates: Partial<LanguageStyle>) => {
     setState(prev => ({
       ...prev,
       template: {
         ...prev.template,
-        [key]: { ...prev.template[key], ...updates }
+        languageStyles: { ...prev.template.languageStyles, [code]: { ...DEFAULT_LANGUAGE_STYLE, ...prev.template.languageStyles[code], ...updates } }
       }
     }));
   };
 
+  const addCharacter = () => {
+    if (!newCharacterName.trim()) return;
+    const character = createCharacter(newCharacterName.trim());
+    setState(prev => ({ ...prev, characters: [...prev.characters, character] }));
+    setNewCharacterName('');
+  };
+
+  // Renames apply on blur, so beats naming the character follow it without passing through partial names
+  const commitCharacterName = (id: string) => {
+    const draft = characterNameDrafts[id]?.trim();
+    setCharacterNameDrafts(({ [id]: _, ...rest }) => rest);
+    const character = state.characters.find(c => c.id === id);
+    if (!draft || !character || draft === character.name) return;
+    const other = findCharacter(state.characters, draft);
+    if (other && other.id !== id) {
+      alert(`There is already a character named ${other.name}.`);
+      return;
+    }
+    setState(prev => ({
+      ...prev,
+      characters: prev.characters.map(c => c.id === id ? { ...c, name: draft } : c),
+      beats: renameSpeaker(prev.beats, character.name, draft)
+    }), `Rename ${character.name} to ${draft}`);
+  };
+
+  const updateCharacterNameStyle = (id: string, updates: Partial<TextStyle>) => {
+    setState(prev => ({
+      ...prev,
+      characters: prev.characters.map(c => c.id === id && c.nameStyle ? { ...c, nameStyle: { ...c.nameStyle, ...updates } } : c)
+    }));
+  };
+
+  // Picking a speaker also places their default sprite when they aren't on the beat yet
+  const pickSpeaker = (name: string) => {
+    setSpeakerHighlight(null);
+    setState(prev => {
+      const character = findCharacter(prev.characters, name);
+      const current = prev.beats[prev.currentBeat];
+      const expression = character?.expressions.find(ex => ex.name === character.defaultExpression);
+      const sprites = character && expression && !current.sprites.some(sp => sp.characterId === character.id)
+        ? [...current.sprites, createSprite(character, expression.name)]
+        : current.sprites;
+      return {
+        ...prev,
+        beats: prev.beats.map((b, i) => i === prev.currentBeat ? { ...b, characterName: character?.name ?? name, sprites } : b)
+      };
+    }, `Set speaker to ${name}`);
+  };
+
+  const addSpeakerToRoster = (name: string) => {
+    setState(prev => findCharacter(prev.characters, name) ? prev : { ...prev, characters: [...prev.characters, createCharacter(name.trim())] });
+  };
+
+  const updateCharacter = (id: string, updates: Partial<SceneCharacter>) => {
+    setState(prev => ({
+      ...prev,
+      characters: prev.characters.map(c => c.id === id ? { ...c, ...updates } : c)
+    }));
+  };
+
+  const deleteCharacter = (id: string) => {
+    setState(prev => ({
+      ...prev,
+      characters: prev.characters.filter(c => c.id !== id),
+      beats: prev.beats.map(b => ({ ...b, sprites: b.sprites.filter(sp => sp.characterId !== id) }))
+    }));
+  };
+
+  const handleExpressionUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = expressionTargetRef.current;
+    e.target.value = '';
+    if (!file || !target) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const image = event.target?.result as string;
+      setState(prev => ({
+        ...prev,
+        characters: prev.characters.map(c => {
+          if (c.id !== target.characterId) return c;
+          const others = c.expressions.filter(ex => ex.name !== target.name);
+          return { ...c, expressions: [...others, { name: target.name, image }] };
+        })
+      }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const requestExpressionUpload = (characterId: string, name: string) => {
+    if (!name.trim()) return;
+    expressionTargetRef.current = { characterId, name: name.trim() };
+    expressionInputRef.current?.click();
+  };
+
+  const deleteExpression = (characterId: string, name: string) => {
+    setState(prev => ({
+      ...prev,
+      characters: prev.characters.map(c => c.id === characterId ? {
+        ...c,
+        expressions: c.expressions.filter(ex => ex.name !== name),
+        defaultExpression: c.defaultExpression === name ? null : c.defaultExpression
+      } : c)
+    }));
+  };
+
+  const addSprite = (character: SceneCharacter) => {
+    const sprite = createSprite(character, character.defaultExpression ?? character.expressions[0]?.name ?? '');
+    updateBeat({ sprites: [...beat.sprites, sprite] });
+    setSelectedSpriteId(sprite.id);
+  };
+
+  const updateSprite = (id: string, updates: Partial<SpriteLayer>) => {
+    setState(prev => ({
+      ...prev,
+      beats: prev.beats.map((b, i) => i === prev.currentBeat
+        ? { ...b, sprites: b.sprites.map(sp => sp.id === id ? { ...sp, ...updates } : sp) }
+        : b)
+    }));
+  };
+
+  const moveSpriteLayer = (id: string, direction: -1 | 1) => {
+    const sprites = [...beat.sprites];
+    const index = sprites.findIndex(sp => sp.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= sprites.length) return;
+    [sprites[index], sprites[target]] = [sprites[target], sprites[index]];
+    updateBeat({ sprites });
+  };
+
+  const removeSprite = (id: string) => {
+    updateBeat({ sprites: beat.sprites.filter(sp => sp.id !== id) });
+    if (selectedSpriteId === id) setSelectedSpriteId(null);
+  };
+
+  const handleSpritePointerDown = (e: React.PointerEvent, sprite: SpriteLayer) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelectedSpriteId(sprite.id);
+    spriteDragRef.current = { id: sprite.id, startX: e.clientX, startY: e.clientY, originX: sprite.x, originY: sprite.y };
+  };
+
+  const handleSpritePointerMove = (e: React.PointerEvent) => {
+    const drag = spriteDragRef.current;
+    if (!drag || !previewRef.current) return;
+    const rect = previewRef.current.getBoundingClientRect();
+    const x = drag.originX + ((e.clientX - drag.startX) / rect.width) * 100;
+    const y = drag.originY - ((e.clientY - drag.startY) / rect.height) * 100;
+    updateSprite(drag.id, {
+      x: Math.round(Math.min(Math.max(x, 0), 100) * 10) / 10,
+      y: Math.round(Math.min(Math.max(y, -50), 100) * 10) / 10
+    });
+  };
+
+  const handleSpritePointerUp = () => {
+    spriteDragRef.current = null;
+  };
+
+  // Edits give the current beat its own view, starting from the one it was carrying over
+  const updateBackground = (updates: Partial<BackgroundView> | ((view: BackgroundView) => Partial<BackgroundView>)) => {
+    setState(prev => ({
+      ...prev,
+      beats: prev.beats.map((beat, i) => {
+        if (i !== prev.currentBeat) return beat;
+        const view = resolveBeatBackground(prev.beats, i);
+        return { ...beat, background: { ...view, ...(typeof updates === 'function' ? updates(view) : updates) } };
+      })
+    }));
+  };
+
+  const addBackgroundFilter = (type: BackgroundFilterType) => {
+    updateBackground(view => ({ filters: [...view.filters, createBackgroundFilter(type, generateId('filter'))] }));
+  };
+
+  const updateBackgroundFilter = (id: string, updates: Partial<BackgroundView['filters'][number]>) => {
+    updateBackground(view => ({ filters: view.filters.map(f => f.id === id ? { ...f, ...updates } : f) }));
+  };
+
+  const moveBackgroundFilter = (id: string, direction: -1 | 1) => {
+    updateBackground(view => {
+      const filters = [...view.filters];
+      const index = filters.findIndex(f => f.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= filters.length) return {};
+      [filters[index], filters[target]] = [filters[target], filters[index]];
+      return { filters };
+    });
+  };
+
+  // Dragging the background pans it; sprites and the textbox sit above and keep their own pointer handling
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    if (isPlaying) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    backgroundDragRef.current = { startX: e.clientX, startY: e.clientY, originX: backgroundView.panX, originY: backgroundView.panY };
+  };
+
+  const handleBackgroundPointerMove = (e: React.PointerEvent) => {
+    const drag = backgroundDragRef.current;
+    if (!drag || !previewRef.current) return;
+    const rect = previewRef.current.getBoundingClientRect();
+    updateBackground({
+      panX: Math.round((drag.originX + ((e.clientX - drag.startX) / rect.width) * 100) * 10) / 10,
+      panY: Math.round((drag.originY + ((e.clientY - drag.startY) / rect.height) * 100) * 10) / 10
+    });
+  };
+
+  const handleBackgroundPointerUp = () => {
+    backgroundDragRef.current = null;
+  };
+
+  const updateTemplate = (updates: Partial<UITemplate>) => {
+    setState(prev => ({ ...prev, template: { ...prev.template, ...updates } }));
+  };
+
+  const updateTextStyle = (key: StyleTarget, updates: Partial<TextStyle>) => {
+    setState(prev => ({ ...prev, template: withTemplateTextStyle(prev.template, key, updates) }));
+  };
+
+  const updateBacklogStyle = (updates: Partial<BacklogStyle>) => {
+    setState(prev => ({ ...prev, template: { ...prev.template, backlogStyle: { ...prev.template.backlogStyle, ...updates } } }));
+  };
+
+  const updateHud = (updates: Partial<HudStyle>) => {
+    setState(prev => ({ ...prev, template: { ...prev.template, hud: { ...prev.template.hud, ...updates } } }));
+  };
+
+  const toggleHudButton = (field: 'buttons' | 'activeButtons', button: QuickMenuButton) => {
+    const list = state.template.hud[field];
+    // Keep the menu in its standard order however buttons are toggled
+    const next = list.includes(button)
+      ? list.filter(b => b !== button)
+      : (Object.keys(QUICK_MENU_BUTTONS) as QuickMenuButton[]).filter(b => b === button || list.includes(b));
+    updateHud({ [field]: next });
+  };
+
   const updateBoxStyle = (updates: Partial<BoxStyle>) => {
     setState(prev => ({
       ...prev,
@@ -159,12 +757,124 @@ export default function App() {
     }));
   };
 
+  const updateTextLimits = (updates: Partial<TextLimits>) => {
+    setState(prev => ({
+      ...prev,
+      template: {
+        ...prev.template,
+        textLimits: { ...prev.template.textLimits, ...updates }
+      }
+    }));
+  };
+
+  const handleFrameUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = frameTargetRef.current;
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      const image = event.target?.result as string;
+      try {
+        const img = await loadImage(image);
+        const inset = Math.max(1, Math.min(DEFAULT_SLICE_INSET, Math.floor(Math.min(img.width, img.height) / 3)));
+        const existing = templateFrame(state.template, target);
+        const frame: NineSliceFrame = existing
+          ? { ...existing, image, fileName: file.name }
+          : { image, fileName: file.name, top: inset, right: inset, bottom: inset, left: inset, borderScale: 1 };
+        if (target === 'box') updateBoxStyle({ type: 'image', frame });
+        else updateNamePlate({ type: 'image', frame });
+      } catch (err) {
+        alert('Failed to load frame image.');
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const updateFrame = (target: FrameTarget, updates: Partial<NineSliceFrame>) => {
+    setState(prev => {
+      const frame = templateFrame(prev.template, target);
+      if (!frame) return prev;
+      return { ...prev, template: withTemplateFrame(prev.template, target, { ...frame, ...updates }) };
+    });
+  };
+
+  const updateNamePlate = (updates: Partial<NamePlateStyle>) => {
+    setState(prev => ({
+      ...prev,
+      template: {
+        ...prev.template,
+        namePlate: { ...prev.template.namePlate, ...updates }
+      }
+    }));
+  };
+
+  const updateChoiceStyle = (updates: Partial<ChoiceStyle>) => {
+    setState(prev => ({
+      ...prev,
+      template: {
+        ...prev.template,
+        choiceStyle: { ...prev.template.choiceStyle, ...updates }
+      }
+    }));
+  };
+
+  const toggleChoiceMenu = () => {
+    updateBeat({
+      choiceMenu: beat.choiceMenu ? null : {
+        options: [
+          { id: generateId('choice'), text: { [state.display.primary]: 'Go left' }, state: 'normal' },
+          { id: generateId('choice'), text: { [state.display.primary]: 'Go right' }, state: 'normal' }
+        ],
+        showTextbox: true
+      }
+    });
+  };
+
+  // Starts from the lines of the beats before this one, as the game's history would show them
+  const toggleBacklog = () => {
+    const earlier = state.beats.slice(0, state.currentBeat).filter(b => !b.backlog && plainText(trackText(b.text, state.display.primary)));
+    updateBeat({
+      backlog: beat.backlog ? null : {
+        entries: earlier.map(b => ({ id: generateId('entry'), characterName: b.characterName, text: b.text })),
+        scroll: 0
+      }
+    });
+  };
+
+  const updateBacklogEntries = (entries: BacklogEntry[]) => {
+    if (!beat.backlog) return;
+    updateBeat({ backlog: { ...beat.backlog, entries } });
+  };
+
+  // Each pasted line becomes an entry, in the same "Name: line" or Ren'Py formats the script import reads
+  const pasteBacklogEntries = () => {
+    const result = parseScript(backlogPaste);
+    if (result.lines.length === 0) {
+      alert('No dialogue lines were found in the pasted text.');
+      return;
+    }
+    updateBacklogEntries(result.lines.map(line => ({ id: generateId('entry'), characterName: line.speaker, text: { [state.display.primary]: line.text } })));
+    setBacklogPaste('');
+  };
+
+  const handleBacklogWheel = (e: React.WheelEvent) => {
+    if (!beat.backlog || !backlogLayout || backlogLayout.scrollRange === 0) return;
+    const delta = (-e.deltaY / stageScale / backlogLayout.scrollRange) * 100;
+    updateBeat({ backlog: { ...beat.backlog, scroll: Math.round(Math.min(Math.max(beat.backlog.scroll + delta, 0), 100)) } });
+  };
+
+  const updateChoiceOptions = (options: ChoiceOption[]) => {
+    if (!beat.choiceMenu) return;
+    updateBeat({ choiceMenu: { ...beat.choiceMenu, options } });
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (event) => {
-        updateState({ image: event.target?.result as string });
+        updateBeat({ image: event.target?.result as string });
       };
       reader.readAsDataURL(file);
     }
@@ -176,14 +886,14 @@ export default function App() {
     if (file && file.type.startsWith('image/')) {
       const reader = new FileReader();
       reader.onload = (event) => {
-        updateState({ image: event.target?.result as string });
+        updateBeat({ image: event.target?.result as string });
       };
       reader.readAsDataURL(file);
     }
   };
 
   const handleSaveProject = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(state));
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(serializeProject(state));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
     downloadAnchorNode.setAttribute("download", "vn-scene-project.json");
@@ -198,41 +908,310 @@ export default function App() {
       const reader = new FileReader();
       reader.onload = (event) => {
         try {
-          const loadedState = JSON.parse(event.target?.result as string);
-          setState(loadedState);
+          const { state: loadedState, ignoredFields } = parseProject(JSON.parse(event.target?.result as string));
+          setState(loadedState, `Load ${file.name}`);
+          if (ignoredFields.length > 0) {
+            alert(`Loaded, but these fields aren't recognized and were dropped:\n${ignoredFields.join('\n')}`);
+          }
         } catch (err) {
-          alert('Invalid project file.');
+          alert(err instanceof SyntaxError || err instanceof ProjectFormatError ? `Invalid project file. ${err.message}` : 'Invalid project file.');
         }
       };
       reader.readAsText(file);
     }
   };
 
-  const handleExportImage = async () => {
-    if (!previewRef.current) return;
+  const persistProject = async (project: ProjectSummary, snapshot: SceneState) => {
+    const canvas = await renderBeat(snapshot, 0, {
+      width: THUMBNAIL_WIDTH,
+      height: Math.round(THUMBNAIL_WIDTH * snapshot.exportSize.height / snapshot.exportSize.width),
+      availableFonts: loadedFonts
+    });
+    await saveProject({ ...project, thumbnail: canvas.toDataURL('image/jpeg', 0.7) }, snapshot);
+    savedStateRef.current = snapshot;
+    setLibrary(await listProjects());
+    setLibraryError(null);
+  };
+
+  // Writes pending edits before another project replaces the current one
+  const flushCurrentProject = async () => {
+    if (currentProject && state !== savedStateRef.current) await persistProject(currentProject, state);
+  };
+
+  const showProject = (project: ProjectSummary, snapshot: SceneState) => {
+    savedStateRef.current = snapshot;
+    resetHistory(snapshot);
+    setCurrentProject(project);
+    setSelectedSpriteId(null);
+    stopPlayback();
+    localStorage.setItem(CURRENT_PROJECT_KEY, project.id);
+  };
+
+  const openProject = async (project: ProjectSummary) => {
+    await flushCurrentProject();
+    const { state: loaded, ignoredFields } = await loadProject(project.id);
+    if (ignoredFields.length > 0) console.warn(`Fields ignored in "${project.name}":`, ignoredFields);
+    showProject(project, loaded);
+    setLibrary(await listProjects());
+  };
+
+  const createProject = async (snapshot: SceneState, name: string) => {
+    await flushCurrentProject();
+    const now = Date.now();
+    const project: ProjectSummary = { id: generateId('project'), name, createdAt: now, updatedAt: now, thumbnail: null };
+    await persistProject(project, snapshot);
+    showProject(project, snapshot);
+  };
+
+  const handleOpenProject = (project: ProjectSummary) => {
+    if (project.id === currentProject?.id) return;
+    openProject(project).catch(err => alert(err instanceof Error ? err.message : 'Failed to open project.'));
+  };
+
+  const handleNewProject = () => {
+    createProject(defaultState, 'Untitled Project')
+      .catch(err => alert(err instanceof Error ? err.message : 'Failed to create project.'));
+  };
+
+  const handleRenameProject = async (project: ProjectSummary, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === project.name) return;
     try {
-      const canvas = await html2canvas(previewRef.current, {
-        useCORS: true,
-        scale: 2,
-        backgroundColor: '#000000',
-      });
-      const image = canvas.toDataURL("image/png");
+      await renameProject(project.id, trimmed);
+      if (project.id === currentProject?.id) setCurrentProject({ ...currentProject, name: trimmed });
+      setLibrary(await listProjects());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to rename project.');
+    }
+  };
+
+  const handleDuplicateProject = async (project: ProjectSummary) => {
+    try {
+      if (project.id === currentProject?.id) await flushCurrentProject();
+      await duplicateProject(project.id, generateId('project'), `${project.name} (Copy)`);
+      setLibrary(await listProjects());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to duplicate project.');
+    }
+  };
+
+  const handleDeleteProject = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This can't be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      if (project.id !== currentProject?.id) {
+        setLibrary(await listProjects());
+        return;
+      }
+      // Nothing left to flush: the deleted project's edits go with it
+      savedStateRef.current = state;
+      const next = (await listProjects())[0];
+      if (next) {
+        await openProject(next);
+      } else {
+        await createProject(defaultState, 'Untitled Project');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete project.');
+    }
+  };
+
+  const exportBeat = async (index: number, filename: string) => {
+    const canvas = await renderBeat(state, index, { ...state.exportSize, availableFonts: loadedFonts });
+    const url = URL.createObjectURL(await canvasToBlob(canvas));
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportScript = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = parseScript(event.target?.result as string, file.name);
+      setImportReport({ ...result, fileName: file.name });
+      if (result.lines.length === 0) return;
+      setState(prev => {
+        const imported = result.lines.map(line => createBeat({ characterName: line.speaker, text: { [prev.display.primary]: line.text } }));
+        if (replaceOnImport) {
+          // Keep the first beat's background and framing so the imported scene isn't blank
+          imported[0] = { ...imported[0], image: resolveBeatImage(prev.beats, prev.currentBeat), background: resolveBeatBackground(prev.beats, prev.currentBeat) };
+          return { ...prev, beats: imported, currentBeat: 0 };
+        }
+        const beats = [...prev.beats];
+        beats.splice(prev.currentBeat + 1, 0, ...imported);
+        return { ...prev, beats, currentBeat: prev.currentBeat + 1 };
+      }, `Import ${file.name}`);
+    };
+    reader.readAsText(file);
+  };
+
+  const startPlayback = () => {
+    setRevealTime(0);
+    setPlayStartedAt(performance.now());
+    setIsPlaying(true);
+  };
+
+  const stopPlayback = () => {
+    setIsPlaying(false);
+    setRevealTime(null);
+  };
+
+  // Clicking the preview during playback finishes the line, or moves on once it has finished
+  const handlePreviewClick = () => {
+    if (!isPlaying || revealTime === null) return;
+    if (revealTime < lineDurationRef.current) {
+      setPlayStartedAt(performance.now() - lineDurationRef.current);
+    } else if (state.currentBeat < state.beats.length - 1) {
+      goToBeat(state.currentBeat + 1);
+    } else {
+      stopPlayback();
+    }
+  };
+
+  const handleExportAnimation = async (format: AnimationFormat) => {
+    stopPlayback();
+    const frameDuration = 1000 / ANIMATION_FPS;
+    const lines = displayedLines(beat.text, state.display);
+    const timing = buildLineTiming(lines.primary, lines.secondary, state.typewriter);
+    const size = animationSize(format, state.exportSize);
+    // {shake} text moves every frame, so frames stop merging once any of it is on screen
+    const shakeFrom = { dialogue: firstShakeIndex(lines.primary), secondary: firstShakeIndex(lines.secondary) };
+    try {
+      const writer = format === 'gif' ? createGifWriter() : createWebmWriter();
+      const capture = async (revealTime: number, delay: number, indicatorVisible = true) => {
+        const canvas = await renderBeat(state, state.currentBeat, { ...size, revealTime, indicatorVisible, availableFonts: loadedFonts });
+        await writer.addFrame(canvas, delay);
+      };
+
+      let lastVisible = -1;
+      let shaking = false;
+      for (let time = 0; time < timing.duration + frameDuration; time += frameDuration) {
+        const clamped = Math.min(time, timing.duration);
+        const reveal = lineRevealAt(timing, clamped);
+        const visible = reveal.dialogue + reveal.secondary;
+        shaking = (shakeFrom.dialogue !== null && reveal.dialogue > shakeFrom.dialogue)
+          || (shakeFrom.secondary !== null && reveal.secondary > shakeFrom.secondary);
+        if (visible === lastVisible && !shaking) {
+          writer.extendFrame(frameDuration);
+          continue;
+        }
+        lastVisible = visible;
+        setAnimationProgress(`Rendering ${Math.round((clamped / Math.max(timing.duration, 1)) * 100)}%`);
+        await capture(clamped, frameDuration);
+      }
+
+      // Two blinks of the continue indicator at the end of the line, still shaking if the text does
+      const step = shaking ? frameDuration : 500;
+      for (let hold = 0; hold < 2000; hold += step) {
+        await capture(timing.duration + hold, step, Math.floor(hold / 500) % 2 === 0);
+      }
+
+      setAnimationProgress(`Encoding ${format.toUpperCase()}...`);
+      const blob = await writer.finish();
+      const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
-      link.download = 'vn-scene-export.png';
-      link.href = image;
+      link.download = `vn-scene-${String(state.currentBeat + 1).padStart(2, '0')}.${format}`;
+      link.href = url;
       link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Animation export failed', err);
+      alert(err instanceof Error ? err.message : 'Failed to export animation.');
+    } finally {
+      setAnimationProgress(null);
+    }
+  };
+
+  const handleExportImage = async () => {
+    try {
+      await exportBeat(state.currentBeat, `vn-scene-export-${String(state.currentBeat + 1).padStart(2, '0')}.png`);
     } catch (err) {
       console.error('Export failed', err);
       alert('Failed to export image.');
     }
   };
 
+  const handleScanOverflow = async () => {
+    const preset = EXPORT_RESOLUTIONS.find(r => r.label === reportResolution);
+    const size = preset ? { width: preset.width, height: preset.height } : state.exportSize;
+    // Widths are only right once custom fonts have loaded
+    await document.fonts.ready;
+    // The preview pairing, then each language alone as it is exported
+    const displays = [state.display, ...state.languages.map(l => ({ primary: l.code, secondary: null }))];
+    setOverflowReport({ size, overflows: scanProjectOverflow(state, { ...size, availableFonts: loadedFonts }, displays) });
+  };
+
+  const handleExportSequence = async () => {
+    try {
+      for (let i = 0; i < state.beats.length; i++) {
+        await exportBeat(i, `vn-scene-export-${String(i + 1).padStart(2, '0')}.png`);
+      }
+    } catch (err) {
+      console.error('Export failed', err);
+      alert('Failed to export image sequence.');
+    }
+  };
+
+  // One folder of beats per language track, each showing only that language
+  const handleExportPerLanguage = async () => {
+    try {
+      const files: Record<string, Uint8Array> = {};
+      for (const language of state.languages) {
+        const localized = { ...state, display: { primary: language.code, secondary: null } };
+        for (let i = 0; i < state.beats.length; i++) {
+          const canvas = await renderBeat(localized, i, { ...state.exportSize, availableFonts: loadedFonts });
+          const blob = await canvasToBlob(canvas);
+          files[`${language.code}/vn-scene-export-${String(i + 1).padStart(2, '0')}.png`] = new Uint8Array(await blob.arrayBuffer());
+        }
+      }
+      // PNGs are already compressed, so entries are stored as-is
+      const url = URL.createObjectURL(new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.download = 'vn-scene-languages.zip';
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Export failed', err);
+      alert('Failed to export languages.');
+    }
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = fontTargetRef.current;
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const font = await readFontFile(file, state.fonts);
+      setState(prev => ({ ...prev, fonts: [...prev.fonts, font] }));
+      if (target) target({ fontFamily: font.family });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load font.');
+    }
+  };
+
+  const deleteFont = (family: string) => {
+    setState(prev => ({ ...prev, fonts: prev.fonts.filter(f => f.family !== family) }));
+  };
+
   const saveCurrentAsTemplate = () => {
     if (!newTemplateName.trim()) return;
+    const library = templateLibrary(state);
+    const parent = library.find(t => t.id === newTemplateParentId);
     const newTemplate: UITemplate = {
       ...state.template,
       id: `custom-${Date.now()}`,
-      name: newTemplateName.trim()
+      name: newTemplateName.trim(),
+      parentId: parent?.id ?? null,
+      // Only the fields that differ are kept, so later changes to the parent still come through
+      overrides: parent ? templateOverrides(state.template, resolveTemplate(parent, library)) : {},
+      fonts: collectTemplateFonts(state.template, state.fonts)
     };
     setState(prev => ({
       ...prev,
@@ -240,118 +1219,812 @@ export default function App() {
       template: newTemplate
     }));
     setNewTemplateName('');
+    setNewTemplateParentId(newTemplate.id);
+  };
+
+  // Writes the scene template back over the saved template it was applied from, updating its children
+  const updateSavedTemplate = () => {
+    setState(prev => {
+      const template = {
+        ...prev.template,
+        overrides: currentOverrides(prev.template, templateLibrary(prev)),
+        fonts: collectTemplateFonts(prev.template, prev.fonts)
+      };
+      return withSavedTemplates({ ...prev, template }, prev.savedTemplates.map(t => t.id === template.id ? template : t));
+    }, `Update template "${state.template.name}"`);
+  };
+
+  // Sets one field of the scene template back to the value the chosen parent gives it
+  const revertToParent = (path: string) => {
+    setState(prev => {
+      const library = templateLibrary(prev);
+      const parent = library.find(t => t.id === newTemplateParentId);
+      if (!parent) return prev;
+      const parentValues = templateOverrides(resolveTemplate(parent, library), prev.template);
+      return { ...prev, template: applyTemplateOverrides(prev.template, { [path]: parentValues[path] }) };
+    }, `Revert ${path}`);
+  };
+
+  const exportTemplates = (templates: UITemplate[], fileName: string) => {
+    const url = URL.createObjectURL(new Blob([serializeTemplateFile(templates)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = `${fileName}${TEMPLATE_FILE_EXTENSION}`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
+  const handleImportTemplates = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const { templates, ignoredFields } = parseTemplateFile(JSON.parse(event.target?.result as string));
+        // Built-in templates can't be replaced, so ones sharing their id come in as copies;
+        // any other id already saved is replaced, so re-importing a pack updates it
+        const imported = templates.map(t => DEFAULT_TEMPLATES.some(d => d.id === t.id) ? { ...t, id: generateId('custom') } : t);
+        setState(prev => {
+          const kept = prev.savedTemplates.map(t => imported.find(i => i.id === t.id) ?? t);
+          const added = imported.filter(t => !prev.savedTemplates.some(s => s.id === t.id));
+          const next = withSavedTemplates(prev, [...kept, ...added]);
+          return { ...next, fonts: mergeFonts(next.fonts, imported.flatMap(t => t.fonts ?? [])) };
+        }, `Import ${file.name}`);
+        if (ignoredFields.length > 0) {
+          alert(`Imported, but these fields aren't recognized and were dropped:\n${ignoredFields.join('\n')}`);
+        }
+      } catch (err) {
+        alert(err instanceof SyntaxError || err instanceof ProjectFormatError ? `Invalid template file. ${err.message}` : 'Invalid template file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleExportToEngine = () => {
+    const template = { ...state.template, fonts: collectTemplateFonts(state.template, state.fonts) };
+    const files = getEngineExporter(engineTarget).exportTemplate(template, state.exportSize);
+    files.forEach(file => {
+      const blob = typeof file.content === 'string' ? new Blob([file.content], { type: 'text/plain' }) : file.content;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = file.fileName;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  // Templates extending the deleted one keep its current look as their own
   const deleteTemplate = (id: string) => {
+    const detach = (t: UITemplate) => t.parentId === id ? { ...t, parentId: null, overrides: {} } : t;
     setState(prev => ({
       ...prev,
-      savedTemplates: prev.savedTemplates.filter(t => t.id !== id)
+      template: detach(prev.template),
+      savedTemplates: prev.savedTemplates.filter(t => t.id !== id).map(detach)
     }));
   };
 
   const applyTemplate = (template: UITemplate) => {
-    updateState({ template });
+    setState(prev => ({ ...prev, template, fonts: mergeFonts(prev.fonts, template.fonts) }), `Apply template "${template.name}"`);
+    setNewTemplateParentId(template.id);
+  };
+
+  const beat = state.beats[state.currentBeat];
+  const backgroundImage = resolveBeatImage(state.beats, state.currentBeat);
+  const backgroundView = resolveBeatBackground(state.beats, state.currentBeat);
+  const selectedSprite = beat.sprites.find(sp => sp.id === selectedSpriteId) ?? null;
+  const activeTemplate = resolveBeatTemplate(state, beat);
+  // The style controls edit the scene template, so they're locked on beats that show another one
+  const styleLocked = activeTemplate !== state.template;
+  const allTemplates = templateLibrary(state);
+  const newTemplateParent = allTemplates.find(t => t.id === newTemplateParentId);
+  const pendingOverrides = newTemplateParent
+    ? Object.keys(templateOverrides(state.template, resolveTemplate(newTemplateParent, allTemplates)))
+    : [];
+  const isFontMissing = (family: string) => !isGenericFont(family) && (failedFonts.has(family) || !state.fonts.some(f => f.family === family));
+  const characterFonts = state.characters.flatMap(c => c.nameStyle?.fontFamily ? [c.nameStyle.fontFamily] : []);
+  const missingFonts = Array.from(new Set([...templateFontFamilies(activeTemplate), ...templateFontFamilies(state.template), ...characterFonts])).filter(isFontMissing);
+
+  const speakers = sceneSpeakers(state);
+  // Roster characters first, then names used in beats that aren't on the roster
+  const speakerQuery = beat.characterName.trim().toLowerCase();
+  const speakerSuggestions = [...state.characters.map(c => c.name), ...speakers.filter(name => !findCharacter(state.characters, name))]
+    .filter(name => name.trim() && name.toLowerCase().includes(speakerQuery));
+  const lines = displayedLines(beat.text, state.display);
+  const lineTiming = buildLineTiming(lines.primary, lines.secondary, state.typewriter);
+  lineDurationRef.current = lineTiming.duration;
+  const reveal = revealTime === null ? null : lineRevealAt(lineTiming, revealTime);
+  const stageHeight = sceneHeight(state.exportSize.width, state.exportSize.height);
+  const aspectRatio = aspectRatioOf(state.exportSize);
+  const beatOverflow = useMemo(
+    () => checkBeatOverflow(state, state.currentBeat, { ...state.exportSize, availableFonts: loadedFonts }),
+    [state, loadedFonts]
+  );
+  const textboxLayout = useMemo(
+    () => measureTextbox(state, state.currentBeat, { ...state.exportSize, availableFonts: loadedFonts }),
+    [state, loadedFonts]
+  );
+  const backlogLayout = useMemo(
+    () => measureBacklog(state, state.currentBeat, { ...state.exportSize, availableFonts: loadedFonts }),
+    [state, loadedFonts]
+  );
+  const overflowFor = (field: TextOverflow['field']) => beatOverflow.filter(o => o.field === field);
+
+  const renderContinueIndicator = () => {
+    if (reveal ? !reveal.finished : !activeTemplate.hud.stillIndicator) return null;
+    return (
+      <span className="inline-block ml-2 text-[0.6em] align-middle animate-pulse">▼</span>
+    );
+  };
+
+  // Unrevealed characters stay in the layout, hidden, so words don't jump between lines mid-reveal
+  const textCss = (style: TextStyle): React.CSSProperties => ({
+    fontFamily: fontStack(style.fontFamily, loadedFonts),
+    fontSize: `${style.fontSize}px`,
+    color: style.color,
+    fontStyle: style.isItalic ? 'italic' : 'normal',
+    lineHeight: LINE_HEIGHT,
+    textShadow: style.hasOutline ? textShadowCss() : 'none',
+    whiteSpace: 'pre-wrap'
+  });
+
+  // Markup runs as spans; visibleLength counts plain characters, the same as the typewriter
+  const renderRichRuns = (text: string, style: TextStyle, visibleLength?: number) => {
+    let offset = 0;
+    return parseRichText(text).runs.map((run, r) => {
+      const runStyle = resolveRunStyle(run, style);
+      const chars = Array.from(run.text);
+      const start = offset;
+      offset += chars.length;
+      const shownCount = visibleLength === undefined ? chars.length : Math.max(0, Math.min(chars.length, visibleLength - start));
+      const css: React.CSSProperties = {
+        fontWeight: runStyle.isBold ? 'bold' : undefined,
+        fontStyle: runStyle.isItalic ? 'italic' : 'normal',
+        color: runStyle.color,
+        fontSize: `${runStyle.fontSize}px`
+      };
+      const renderChars = (part: string[], from: number) => run.shake
+        ? part.map((char, i) => (
+          <span key={i} className="vn-shake" style={{ animationDelay: `${-((from + i) * 0.07) % 0.3}s` }}>{char}</span>
+        ))
+        : part.join('');
+      const body = (
+        <>
+          {renderChars(chars.slice(0, shownCount), 0)}
+          {shownCount < chars.length && <span style={{ visibility: 'hidden' }}>{renderChars(chars.slice(shownCount), shownCount)}</span>}
+        </>
+      );
+      if (run.ruby === null) return <span key={r} style={css}>{body}</span>;
+      return (
+        <span key={r} className="relative inline-block" style={css}>
+          <span
+            className="absolute left-1/2 -translate-x-1/2 bottom-full whitespace-nowrap"
+            style={{ fontSize: `${runStyle.fontSize * RUBY_SCALE}px`, lineHeight: LINE_HEIGHT, visibility: shownCount > 0 ? 'visible' : 'hidden' }}
+          >
+            {run.ruby}
+          </span>
+          {body}
+        </span>
+      );
+    });
   };
 
-  const renderText = (text: string, style: TextStyle) => {
+  const renderText = (text: string, style: TextStyle, visibleLength?: number, indicator?: React.ReactNode) => {
     if (!text) return null;
+    return (
+      <div style={{ ...textCss(style), marginBottom: `${TEXT_BLOCK_GAP}px` }}>
+        {renderRichRuns(text, style, visibleLength)}
+        {indicator}
+      </div>
+    );
+  };
+
+  // Shows the source with malformed tags marked, so a broken tag is found without reading the preview
+  const renderMarkupIssues = (text: string) => {
+    const { issues } = parseRichText(text);
+    if (issues.length === 0) return null;
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    issues.forEach((issue, i) => {
+      if (issue.start < cursor) return;
+      parts.push(text.slice(cursor, issue.start));
+      parts.push(<mark key={i} className="bg-red-500/30 text-red-300 rounded-sm" title={issue.message}>{text.slice(issue.start, issue.end)}</mark>);
+      cursor = issue.end;
+    });
+    parts.push(text.slice(cursor));
+    return (
+      <div className="mt-2 p-2 bg-red-950/30 border border-red-900/50 rounded text-xs space-y-1.5">
+        <div className="font-mono text-zinc-400 whitespace-pre-wrap break-words">{parts}</div>
+        <ul className="text-red-400 space-y-0.5">
+          {issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderOverflowWarnings = (field: TextOverflow['field']) => overflowFor(field).map(o => (
+    <div key={o.message} className="mt-2 flex items-start gap-1.5 text-xs text-amber-400">
+      <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+      {o.message}
+    </div>
+  ));
+
+  const renderChoices = () => {
+    if (!beat.choiceMenu) return null;
+    const choice = activeTemplate.choiceStyle;
+    const textStyle = languageTextStyle(activeTemplate.choiceTextStyle, activeTemplate, state.display.primary);
     return (
       <div
+        className="absolute left-0 right-0 flex flex-col items-center pointer-events-none"
+        style={{ top: `${choice.verticalPosition}%`, transform: 'translateY(-50%)', gap: `${choice.spacing}px` }}
+      >
+        {beat.choiceMenu.options.map(option => {
+          const color = option.state === 'hover' ? choice.hoverColor : option.state === 'chosen' ? choice.chosenColor : choice.buttonColor;
+          return (
+            <div
+              key={option.id}
+              style={{
+                ...textCss(textStyle),
+                width: `${choice.width}%`,
+                padding: '0.75rem 1.5rem',
+                textAlign: 'center',
+                backgroundColor: hexToRgba(color, choice.buttonOpacity / 100),
+                border: `${choice.borderWidth}px solid ${choice.borderColor}`,
+                borderRadius: `${choice.borderRadius}px`,
+                opacity: option.state === 'disabled' ? choice.disabledOpacity / 100 : 1
+              }}
+            >
+              {renderRichRuns(trackText(option.text, state.display.primary), textStyle)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Mirrors SceneRenderer.drawHud: a one-line row of labels or font-size icons, plus the mode badge
+  const renderHud = () => {
+    const hud = activeTemplate.hud;
+    const style = hud.textStyle;
+    const rowHeight = style.fontSize * LINE_HEIGHT;
+    const { vertical, side } = hudPlacement(hud.position);
+    const badge = hudBadgeLabel(hud);
+    return (
+      <>
+        {hud.quickMenu && hud.buttons.length > 0 && (
+          <div
+            className="absolute flex items-center pointer-events-none"
+            style={{
+              [vertical]: hud.margin,
+              ...(side === 'center' ? { left: '50%', transform: 'translateX(-50%)' } : { [side]: hud.margin }),
+              height: rowHeight,
+              gap: hud.spacing
+            }}
+          >
+            {hud.buttons.map(button => {
+              const active = hud.activeButtons.includes(button);
+              const color = active ? hud.activeColor : style.color;
+              const opacity = active ? 1 : hud.idleOpacity / 100;
+              const { label, icon } = QUICK_MENU_BUTTONS[button];
+              return hud.display === 'icon' ? (
+                <svg key={button} width={style.fontSize} height={style.fontSize} viewBox={`0 0 ${HUD_ICON_VIEWBOX} ${HUD_ICON_VIEWBOX}`} fill="none" strokeLinecap="round" strokeLinejoin="round" style={{ opacity }}>
+                  {style.hasOutline && <path d={icon} stroke="#000000" strokeWidth={HUD_ICON_STROKE + HUD_ICON_OUTLINE} />}
+                  <path d={icon} stroke={color} strokeWidth={HUD_ICON_STROKE} />
+                </svg>
+              ) : (
+                <span key={button} style={{ ...textCss({ ...style, color }), whiteSpace: 'nowrap', opacity }}>{label}</span>
+              );
+            })}
+          </div>
+        )}
+        {badge && (
+          <div
+            className="absolute pointer-events-none"
+            style={{
+              top: hud.margin,
+              [hudBadgeSide(hud)]: hud.margin,
+              padding: `${HUD_BADGE_PADDING_Y}px ${HUD_BADGE_PADDING_X}px`,
+              borderRadius: 9999,
+              backgroundColor: HUD_BADGE_BACKGROUND,
+              ...textCss({ ...style, color: hud.activeColor }),
+              whiteSpace: 'nowrap'
+            }}
+          >
+            {badge}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  // Same placement as the renderer: the cropped region is a clipped box, rotated about its center
+  const renderBackground = (src: string) => {
+    const size = backgroundSize?.src === src ? backgroundSize : null;
+    const place = size && backgroundPlacement(state.imageScale, backgroundView, size, PREVIEW_REFERENCE_WIDTH, stageHeight, state.exportSize.width / PREVIEW_REFERENCE_WIDTH);
+    const ratio = place ? place.width / place.sw : 0;
+    const [first, ...later] = backgroundFilterStages(backgroundView.filters);
+    const renderOverlays = (overlays: BackgroundFilter[]) => overlays.map(filter => (
+      <div
+        key={filter.id}
+        className="absolute inset-0 pointer-events-none"
+        style={filter.type === 'tint'
+          ? { backgroundColor: filter.color, opacity: filter.amount / 100, mixBlendMode: 'multiply' }
+          : { background: vignetteCss(filter) }}
+      />
+    ));
+    // Later stages filter everything painted before them, so each wraps the earlier layers
+    return later.reduce((content, stage) => (
+      <>
+        <div className="absolute inset-0" style={{ filter: backgroundFilterCss(stage.css) }}>{content}</div>
+        {renderOverlays(stage.overlays)}
+      </>
+    ), (
+      <>
+        <div className="absolute inset-0 bg-black" />
+        <div
+          className="absolute overflow-hidden"
+          style={place ? {
+            left: place.centerX - place.width / 2,
+            top: place.centerY - place.height / 2,
+            width: place.width,
+            height: place.height,
+            transform: `rotate(${place.rotation}deg)`,
+            filter: backgroundFilterCss(first?.css ?? [])
+          } : { visibility: 'hidden' }}
+        >
+          <img
+            src={src}
+            alt="Scene Background"
+            draggable={false}
+            onLoad={(e) => setBackgroundSize({ src, width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className="absolute max-w-none select-none"
+            style={place && size ? { left: -place.sx * ratio, top: -place.sy * ratio, width: size.width * ratio, height: size.height * ratio } : undefined}
+          />
+        </div>
+        {renderOverlays(first?.overlays ?? [])}
+      </>
+    ));
+  };
+
+  const renderSprites = () => beat.sprites.map(sprite => {
+    const character = state.characters.find(c => c.id === sprite.characterId);
+    const expression = character?.expressions.find(ex => ex.name === sprite.expression) ?? character?.expressions[0];
+    if (!character || !expression) return null;
+    const isSpeaking = character.name.trim().toLowerCase() === beat.characterName.trim().toLowerCase();
+    return (
+      <img
+        key={sprite.id}
+        src={expression.image}
+        alt={`${character.name} (${expression.name})`}
+        draggable={false}
+        onPointerDown={(e) => handleSpritePointerDown(e, sprite)}
+        onPointerMove={handleSpritePointerMove}
+        onPointerUp={handleSpritePointerUp}
+        className={`absolute max-w-none cursor-move select-none ${selectedSpriteId === sprite.id ? 'outline outline-1 outline-dashed outline-indigo-400/70' : ''}`}
+        style={{
+          left: `${sprite.x}%`,
+          bottom: `${sprite.y}%`,
+          height: `${SPRITE_HEIGHT * 100 * sprite.scale}%`,
+          transform: `translateX(-50%) scaleX(${sprite.flipped ? -1 : 1})`,
+          filter: sprite.dimWhenSilent && !isSpeaking ? `brightness(${1 - SPRITE_DIM_AMOUNT})` : 'none',
+          transition: 'filter 0.2s'
+        }}
+      />
+    );
+  });
+
+  // The template's name style with the speaker's roster overrides on top
+  const speakerNameStyle = (name: string) => characterNameStyle(languageTextStyle(activeTemplate.nameStyle, activeTemplate, state.display.primary), findCharacter(state.characters, name));
+
+  const renderName = () => {
+    const displayedName = speakerName(state, beat.characterName, state.display.primary);
+    const plate = activeTemplate.namePlate;
+    const nameStyle = speakerNameStyle(beat.characterName);
+    // NVL pages set every name inline
+    if (plate.anchor === 'inline' || activeTemplate.boxStyle.layout === 'nvl') return renderText(displayedName, nameStyle);
+    if (!beat.characterName.trim() && plate.hideWhenEmpty) return null;
+
+    const { vertical, side } = namePlatePlacement(plate);
+    const padding = namePlatePadding(plate);
+    const border = plate.type === 'solid' ? plate.borderWidth : 0;
+    const tag = (
+      <div
+        className="relative"
+        style={{
+          boxSizing: 'border-box',
+          minWidth: `${plate.minWidth + padding.left + padding.right}px`,
+          maxWidth: '100%',
+          padding: `${padding.top - border}px ${padding.right - border}px ${padding.bottom - border}px ${padding.left - border}px`,
+          textAlign: 'center',
+          backgroundColor: plate.type === 'solid' ? hexToRgba(plate.backgroundColor, plate.opacity / 100) : undefined,
+          border: border ? `${border}px solid ${plate.borderColor}` : undefined,
+          borderRadius: plate.type === 'solid' ? `${plate.borderRadius}px` : undefined
+        }}
+      >
+        {plate.type === 'image' && plate.frame && <NineSliceCanvas frame={plate.frame} opacity={plate.opacity / 100} />}
+        <div className="relative" style={{ ...textCss(nameStyle), minHeight: `${nameStyle.fontSize * LINE_HEIGHT}px` }}>
+          {renderRichRuns(displayedName, nameStyle)}
+        </div>
+      </div>
+    );
+    const justify = side === 'left' ? 'flex-start' : side === 'center' ? 'center' : 'flex-end';
+    if (vertical === 'inset') {
+      return (
+        <div className="relative flex" style={{ justifyContent: justify, left: plate.offsetX, top: plate.offsetY, marginBottom: `${TEXT_BLOCK_GAP}px` }}>
+          {tag}
+        </div>
+      );
+    }
+    // Hangs from the box's top edge, which sits the box's top padding above the text column
+    return (
+      <div
+        className="absolute left-0 right-0 flex"
         style={{
-          fontFamily: style.fontFamily,
-          fontSize: `${style.fontSize}px`,
-          color: style.color,
-          fontStyle: style.isItalic ? 'italic' : 'normal',
-          textShadow: style.hasOutline ? '2px 2px 0 #000, -1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000' : 'none',
-          whiteSpace: 'pre-wrap',
-          marginBottom: '0.5rem'
+          justifyContent: justify,
+          top: -textboxPadding(activeTemplate.boxStyle).top + plate.offsetY,
+          marginLeft: plate.offsetX,
+          marginRight: -plate.offsetX,
+          transform: `translateY(${vertical === 'above' ? -100 : -50}%)`
         }}
       >
-        {text}
+        {tag}
       </div>
     );
   };
 
-  const renderBox = () => {
-    const box = state.template.boxStyle;
-    const content = (
-      <div className="px-8 md:px-16 lg:px-24 w-full">
-        {renderText(state.characterName, state.template.nameStyle)}
-        {renderText(state.dialogue, state.template.dialogueStyle)}
-        {renderText(state.secondaryDialogue, state.template.secondaryDialogueStyle)}
+  // An earlier line on the NVL page, faded by its age
+  // Positions come from the renderer's layout, so the scroll offset and clipping match exports
+  const renderBacklog = () => {
+    if (!beat.backlog || !backlogLayout) return null;
+    const style = activeTemplate.backlogStyle;
+    const layout = backlogLayout;
+    const dialogueStyle = languageTextStyle(activeTemplate.dialogueStyle, activeTemplate, state.display.primary);
+    const scrollbarColor = activeTemplate.dialogueStyle.color;
+    return (
+      <>
+        <div className="absolute inset-0" style={{ backgroundColor: `rgba(0, 0, 0, ${style.dim / 100})` }} />
+        <div
+          className="absolute"
+          onWheel={handleBacklogWheel}
+          style={{
+            left: layout.panelX,
+            top: layout.panelY,
+            width: layout.panelWidth,
+            height: layout.panelHeight,
+            backgroundColor: hexToRgba(style.backgroundColor, style.opacity / 100),
+            border: `${style.borderWidth}px solid ${style.borderColor}`,
+            borderRadius: `${style.borderRadius}px`
+          }}
+        />
+        <div
+          className="absolute overflow-hidden pointer-events-none"
+          style={{ left: layout.contentX, top: layout.contentY, width: layout.contentWidth, height: layout.contentHeight }}
+        >
+          {layout.entries.map(entry => {
+            const source = beat.backlog!.entries.find(e => e.id === entry.id);
+            if (!source) return null;
+            return (
+              <div key={entry.id} className="absolute left-0 right-0" style={{ top: entry.y }}>
+                <div className="absolute" style={{ left: entry.nameX, top: 0, width: entry.nameWidth }}>
+                  {renderText(speakerName(state, source.characterName, state.display.primary), speakerNameStyle(source.characterName))}
+                </div>
+                <div className="absolute" style={{ left: entry.dialogueX, top: entry.dialogueY, width: entry.dialogueWidth }}>
+                  {renderText(trackText(source.text, state.display.primary), dialogueStyle)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {layout.thumb && (
+          <>
+            <div
+              className="absolute pointer-events-none"
+              style={{ left: layout.thumb.x, top: layout.contentY, width: BACKLOG_SCROLLBAR_WIDTH, height: layout.contentHeight, borderRadius: BACKLOG_SCROLLBAR_WIDTH / 2, backgroundColor: hexToRgba(scrollbarColor, BACKLOG_TRACK_ALPHA) }}
+            />
+            <div
+              className="absolute pointer-events-none"
+              style={{ left: layout.thumb.x, top: layout.thumb.y, width: BACKLOG_SCROLLBAR_WIDTH, height: layout.thumb.height, borderRadius: BACKLOG_SCROLLBAR_WIDTH / 2, backgroundColor: hexToRgba(scrollbarColor, BACKLOG_THUMB_ALPHA) }}
+            />
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderPageEntry = (entry: PageEntry) => {
+    const pageBeat = state.beats[entry.beatIndex];
+    const pageLines = displayedLines(pageBeat.text, state.display);
+    return (
+      <div key={pageBeat.id} style={{ opacity: entry.opacity, marginBottom: `${activeTemplate.boxStyle.nvlSpacing}px` }}>
+        {renderText(speakerName(state, pageBeat.characterName, state.display.primary), speakerNameStyle(pageBeat.characterName))}
+        {renderText(pageLines.primary, languageTextStyle(activeTemplate.dialogueStyle, activeTemplate, state.display.primary))}
+        {renderText(pageLines.secondary, languageTextStyle(activeTemplate.secondaryDialogueStyle, activeTemplate, state.display.secondary))}
       </div>
     );
+  };
 
-    if (box.type === 'gradient') {
-      return (
-        <div 
-          className="absolute bottom-0 left-0 right-0 w-full pointer-events-none flex items-end"
+  const renderBox = () => {
+    const box = activeTemplate.boxStyle;
+    const isNvl = box.layout === 'nvl';
+    const isGradient = box.type === 'gradient';
+    const padding = textboxPadding(box);
+    const decoration = BOX_DECORATIONS[box.type];
+    const border = decoration.borderWidth;
+    const fill = hexToRgba(box.backgroundColor, box.opacity / 100);
+    const content = (
+      <div className="w-full" style={{ padding: `0 ${isNvl ? 0 : CONTENT_INSET}px` }}>
+        <div
+          className="relative"
           style={{
-            background: `linear-gradient(to top, ${hexToRgba(box.backgroundColor, box.opacity / 100)} 0%, transparent 100%)`,
-            paddingBottom: `${box.padding}%`,
-            paddingTop: '10%',
-            textAlign: box.textAlign,
+            maxWidth: `${activeTemplate.textLimits.maxWidth}%`,
+            marginLeft: box.textAlign === 'left' ? 0 : 'auto',
+            marginRight: box.textAlign === 'right' ? 0 : 'auto'
           }}
         >
-          {content}
+          {isNvl && textboxLayout?.page.map(renderPageEntry)}
+          {renderName()}
+          {renderText(
+            lines.primary,
+            languageTextStyle(activeTemplate.dialogueStyle, activeTemplate, state.display.primary),
+            reveal?.dialogue,
+            lines.secondary ? null : renderContinueIndicator()
+          )}
+          {renderText(
+            lines.secondary,
+            languageTextStyle(activeTemplate.secondaryDialogueStyle, activeTemplate, state.display.secondary),
+            reveal?.secondary,
+            renderContinueIndicator()
+          )}
         </div>
-      );
-    }
+      </div>
+    );
 
-    let boxStyles: React.CSSProperties = {
-      backgroundColor: hexToRgba(box.backgroundColor, box.opacity / 100),
-      padding: '2rem',
-      marginBottom: `${box.padding}%`,
+    // Gradients fade out towards the scene; an NVL page is dimmed evenly
+    const gradient = isNvl ? fill
+      : box.layout === 'adv-top' ? `linear-gradient(to bottom, ${fill} 0%, transparent 100%)`
+      : box.layout === 'centered' ? `linear-gradient(to bottom, transparent 0%, ${fill} ${GRADIENT_BAND_FADE * 100}%, ${fill} ${(1 - GRADIENT_BAND_FADE) * 100}%, transparent 100%)`
+      : `linear-gradient(to top, ${fill} 0%, transparent 100%)`;
+    const surface: React.CSSProperties = {
+      position: 'relative',
+      height: isNvl ? '100%' : undefined,
+      padding: `${padding.top - border}px ${padding.right - border}px ${padding.bottom - border}px ${padding.left - border}px`,
       textAlign: box.textAlign,
-      margin: `0 2rem ${box.padding}% 2rem`,
-      width: 'calc(100% - 4rem)',
-      pointerEvents: 'none'
+      background: isGradient ? gradient : box.type === 'image' ? undefined : fill,
+      border: border ? `${border}px solid ${decoration.borderColor}` : undefined,
+      borderRadius: `${decoration.radius}px`,
+      boxShadow: decoration.glow ? `0 0 ${decoration.glow.blur}px ${decoration.glow.color}` : undefined
     };
+    // Percentage margins are of the scene width, as in the canvas layout
+    const edge = isGradient ? '0' : `${box.padding}%`;
+    const side = isGradient ? 0 : BOX_MARGIN;
+    const placement: React.CSSProperties = isNvl
+      ? { inset: 0, padding: isGradient ? 0 : `${box.nvlMargin}%` }
+      : box.layout === 'adv-top' ? { top: 0, left: 0, right: 0, padding: `${edge} ${side}px 0` }
+      : box.layout === 'centered' ? { top: '50%', left: 0, right: 0, transform: 'translateY(-50%)', padding: `0 ${side}px` }
+      : { bottom: 0, left: 0, right: 0, padding: `0 ${side}px ${edge}` };
 
-    if (box.type === 'fantasy') {
-      boxStyles = {
-        ...boxStyles,
-        border: '4px solid #b8860b',
-        borderRadius: '4px',
-        boxShadow: '0 0 15px rgba(184, 134, 11, 0.5)',
-      };
-    } else if (box.type === 'romance') {
-      boxStyles = {
-        ...boxStyles,
-        border: '2px solid #ffb6c1',
-        borderRadius: '24px',
-      };
-    } else if (box.type === 'solid') {
-      boxStyles = {
-        ...boxStyles,
-        borderRadius: '8px',
-      };
-    }
+    return (
+      <div className="absolute pointer-events-none" style={placement}>
+        <div style={surface}>
+          {box.type === 'image' && (box.frame
+            ? <NineSliceCanvas frame={box.frame} opacity={box.opacity / 100} />
+            : <div className="absolute inset-0 border-2 border-dashed border-zinc-500/60 rounded" />)}
+          <div className="relative">{content}</div>
+        </div>
+      </div>
+    );
+  };
+
+  // Drawn over the stage at its displayed size, so lines stay one screen pixel wide
+  const renderGuides = () => {
+    if (!guides.safeAreas && !guides.thirds && !guides.grid) return null;
+    const W = PREVIEW_REFERENCE_WIDTH;
+    const H = stageHeight;
+    const cell = guides.gridSize * (W / state.exportSize.width);
+    const line = (key: string, x1: number, y1: number, x2: number, y2: number, stroke: string, dashed = false) => (
+      <line key={key} x1={x1} y1={y1} x2={x2} y2={y2} stroke={stroke} strokeWidth={1} strokeDasharray={dashed ? '6 4' : undefined} vectorEffect="non-scaling-stroke" />
+    );
+    const safeArea = (inset: number, label: string, stroke: string) => (
+      <g key={label}>
+        <rect x={W * inset} y={H * inset} width={W * (1 - inset * 2)} height={H * (1 - inset * 2)} fill="none" stroke={stroke} strokeWidth={1} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+        <text x={W * inset + 6 / stageScale} y={H * inset + 16 / stageScale} fill={stroke} fontSize={12 / stageScale} fontFamily="sans-serif">{label}</text>
+      </g>
+    );
+    return (
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none">
+        {guides.grid && cell > 0 && (
+          <g>
+            {Array.from({ length: Math.floor(W / cell) }, (_, i) => line(`gx${i}`, (i + 1) * cell, 0, (i + 1) * cell, H, 'rgba(255, 255, 255, 0.15)'))}
+            {Array.from({ length: Math.floor(H / cell) }, (_, i) => line(`gy${i}`, 0, (i + 1) * cell, W, (i + 1) * cell, 'rgba(255, 255, 255, 0.15)'))}
+          </g>
+        )}
+        {guides.thirds && [1, 2].map(n => (
+          <g key={n}>
+            {line(`tx${n}`, W * n / 3, 0, W * n / 3, H, 'rgba(165, 180, 252, 0.7)')}
+            {line(`ty${n}`, 0, H * n / 3, W, H * n / 3, 'rgba(165, 180, 252, 0.7)')}
+          </g>
+        ))}
+        {guides.safeAreas && [
+          safeArea(ACTION_SAFE_INSET, 'Action safe', 'rgba(52, 211, 153, 0.8)'),
+          safeArea(TITLE_SAFE_INSET, 'Title safe', 'rgba(251, 191, 36, 0.8)')
+        ]}
+      </svg>
+    );
+  };
+
+  const renderFrameControls = (key: FrameTarget, label: string) => {
+    const frame = templateFrame(state.template, key);
+    return (
+      <div className="space-y-3">
+        <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">{label}</label>
+        <div className="flex gap-2">
+          <button 
+            onClick={() => {
+              frameTargetRef.current = key;
+              frameInputRef.current?.click();
+            }}
+            className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2 truncate"
+          >
+            <Upload size={16} />
+            {frame ? frame.fileName : 'Upload Frame Image'}
+          </button>
+          {frame && (
+            <button 
+              onClick={() => setState(prev => ({ ...prev, template: withTemplateFrame(prev.template, key, null) }))}
+              className="p-2 bg-zinc-900 border border-zinc-800 rounded text-red-400 hover:bg-red-900/30 transition-colors"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+        {frame && (
+          <>
+            <div className="grid grid-cols-4 gap-2">
+              {(['top', 'right', 'bottom', 'left'] as const).map(side => (
+                <div key={side}>
+                  <label className="block text-[10px] text-zinc-500 mb-1 uppercase">{side}</label>
+                  <input 
+                    type="number" 
+                    min="0"
+                    value={frame[side]}
+                    onChange={(e) => updateFrame(key, { [side]: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-sm focus:outline-none focus:border-indigo-500"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Border Scale: {Math.round(frame.borderScale * 100)}%</label>
+              <input 
+                type="range" 
+                min="25" max="400" step="25"
+                value={Math.round(frame.borderScale * 100)}
+                onChange={(e) => updateFrame(key, { borderScale: parseInt(e.target.value) / 100 })}
+                className="w-full accent-indigo-500"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
 
+  const renderCharacterDetails = (c: SceneCharacter) => {
+    const nameMode = c.nameStyle ? 'style' : c.nameColor ? 'color' : 'template';
     return (
-      <div className="absolute bottom-0 left-0 right-0 w-full flex justify-center items-end">
-        <div style={boxStyles}>
-          {content}
+      <div className="space-y-4 pt-1">
+        <div className="space-y-1.5">
+          <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Translated Names</label>
+          {state.languages.map(language => (
+            <div key={language.code} className="flex items-center gap-2">
+              <span className="w-14 shrink-0 text-[10px] font-mono text-zinc-500 truncate">{language.code}</span>
+              <input 
+                type="text" 
+                value={trackText(c.names, language.code)}
+                onChange={(e) => updateCharacter(c.id, { names: { ...c.names, [language.code]: e.target.value } })}
+                placeholder={c.name}
+                className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Name Style</label>
+          <div className="flex bg-zinc-950 rounded p-1 border border-zinc-800">
+            {([['template', 'Template'], ['color', 'Color'], ['style', 'Style']] as const).map(([mode, label]) => (
+              <button 
+                key={mode}
+                className={`flex-1 text-xs py-1 rounded ${nameMode === mode ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                onClick={() => updateCharacter(c.id, mode === 'template'
+                  ? { nameColor: null, nameStyle: null }
+                  : mode === 'color'
+                    ? { nameColor: characterNameStyle(state.template.nameStyle, c).color, nameStyle: null }
+                    : { nameColor: null, nameStyle: c.nameColor ? { color: c.nameColor } : {} })}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {nameMode === 'template' && <p className="text-xs text-zinc-500 mt-2">Uses the template's Name style.</p>}
+          {nameMode === 'color' && (
+            <div className="flex items-center gap-3 mt-3">
+              <input 
+                type="color" 
+                value={c.nameColor!}
+                onChange={(e) => updateCharacter(c.id, { nameColor: e.target.value })}
+                className="h-8 w-14 bg-transparent rounded cursor-pointer"
+              />
+              <span className="text-sm text-zinc-300 uppercase font-mono">{c.nameColor}</span>
+            </div>
+          )}
+          {nameMode === 'style' && (
+            <div className="mt-3">
+              <p className="text-xs text-zinc-500 mb-3">Fields changed here replace the template's; the rest keep following it.</p>
+              {renderTextStyleFields(characterNameStyle(state.template.nameStyle, c), updates => updateCharacterNameStyle(c.id, updates))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Default Sprite</label>
+          <select 
+            value={c.defaultExpression ?? ''}
+            onChange={(e) => updateCharacter(c.id, { defaultExpression: e.target.value || null })}
+            disabled={c.expressions.length === 0}
+            className="w-full bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-xs focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+          >
+            <option value="">None</option>
+            {c.expressions.map(ex => (
+              <option key={ex.name} value={ex.name}>{ex.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-zinc-500 mt-2">Placed on a beat when {c.name} is picked as its speaker and isn't on it yet.</p>
         </div>
       </div>
     );
   };
 
-  const renderTextStyleControls = (key: 'nameStyle' | 'dialogueStyle' | 'secondaryDialogueStyle', label: string) => {
-    const style = state.template[key];
+  const renderTextStyleControls = (key: StyleTarget, label: string) =>
+    renderTextStyleFields(templateTextStyle(state.template, key), updates => updateTextStyle(key, updates));
+
+  const renderTextStyleFields = (style: TextStyle, onChange: (updates: Partial<TextStyle>) => void) => {
     return (
       <div className="space-y-4">
         <div>
           <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Font Family</label>
           <select 
             value={style.fontFamily}
-            onChange={(e) => updateTextStyle(key, { fontFamily: e.target.value })}
+            onChange={(e) => onChange({ fontFamily: e.target.value })}
             className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
           >
             {FONTS.map(f => (
               <option key={f.value} value={f.value}>{f.label}</option>
             ))}
+            {state.fonts.map(f => (
+              <option key={f.family} value={f.family}>{f.family} (Custom)</option>
+            ))}
+            {isFontMissing(style.fontFamily) && !state.fonts.some(f => f.family === style.fontFamily) && (
+              <option value={style.fontFamily}>{style.fontFamily} (Missing)</option>
+            )}
           </select>
+          {isFontMissing(style.fontFamily) && (
+            <div className="mt-2 flex gap-2 text-xs text-amber-400">
+              <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+              <span>"{style.fontFamily}" is not available in this project. Showing {FALLBACK_FONT} instead; upload the font file to fix.</span>
+            </div>
+          )}
+          <button 
+            onClick={() => {
+              fontTargetRef.current = onChange;
+              fontInputRef.current?.click();
+            }}
+            className="w-full mt-2 py-1.5 px-4 text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 rounded border border-zinc-800 transition-colors flex items-center justify-center gap-2"
+          >
+            <Upload size={12} />
+            Upload Font (TTF / OTF / WOFF2)
+          </button>
         </div>
 
         <div>
@@ -360,7 +2033,7 @@ export default function App() {
             type="range" 
             min="12" max="72" 
             value={style.fontSize}
-            onChange={(e) => updateTextStyle(key, { fontSize: parseInt(e.target.value) })}
+            onChange={(e) => onChange({ fontSize: parseInt(e.target.value) })}
             className="w-full accent-indigo-500"
           />
         </div>
@@ -371,7 +2044,7 @@ export default function App() {
             <input 
               type="color" 
               value={style.color}
-              onChange={(e) => updateTextStyle(key, { color: e.target.value })}
+              onChange={(e) => onChange({ color: e.target.value })}
               className="h-8 w-14 bg-transparent rounded cursor-pointer"
             />
             <span className="text-sm text-zinc-300 uppercase font-mono">{style.color}</span>
@@ -381,7 +2054,7 @@ export default function App() {
         <div className="flex items-center justify-between">
           <label className="text-sm font-medium text-zinc-300">Text Outline / Shadow</label>
           <button 
-            onClick={() => updateTextStyle(key, { hasOutline: !style.hasOutline })}
+            onClick={() => onChange({ hasOutline: !style.hasOutline })}
             className={`w-10 h-5 rounded-full relative transition-colors ${style.hasOutline ? 'bg-indigo-500' : 'bg-zinc-700'}`}
           >
             <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${style.hasOutline ? 'translate-x-5' : 'translate-x-0'}`} />
@@ -391,7 +2064,7 @@ export default function App() {
         <div className="flex items-center justify-between">
           <label className="text-sm font-medium text-zinc-300">Italic</label>
           <button 
-            onClick={() => updateTextStyle(key, { isItalic: !style.isItalic })}
+            onClick={() => onChange({ isItalic: !style.isItalic })}
             className={`w-10 h-5 rounded-full relative transition-colors ${style.isItalic ? 'bg-indigo-500' : 'bg-zinc-700'}`}
           >
             <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${style.isItalic ? 'translate-x-5' : 'translate-x-0'}`} />
@@ -411,36 +2084,173 @@ export default function App() {
             <LayoutTemplate className="text-indigo-400" />
             Visual Novel Scene Mockup
           </h1>
-          <div className="text-xs text-zinc-500">Preview Area</div>
+          <div className="flex items-center gap-1 ml-auto mr-4">
+            {([
+              { key: 'safeAreas', label: 'Safe Areas', icon: Scan },
+              { key: 'thirds', label: 'Thirds', icon: Columns3 },
+              { key: 'grid', label: 'Grid', icon: Grid3x3 },
+            ] as const).map(({ key, label, icon: Icon }) => (
+              <button 
+                key={key}
+                onClick={() => setGuides(prev => ({ ...prev, [key]: !prev[key] }))}
+                className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors ${guides[key] ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'}`}
+                title={`Show ${label.toLowerCase()} (editor only, never exported)`}
+              >
+                <Icon size={14} />
+                {label}
+              </button>
+            ))}
+            {guides.grid && (
+              <input 
+                type="number" 
+                min="8"
+                value={guides.gridSize}
+                onChange={(e) => setGuides(prev => ({ ...prev, gridSize: Math.max(parseInt(e.target.value) || 0, 8) }))}
+                className="w-16 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs focus:outline-none focus:border-indigo-500"
+                title="Grid cell size in export pixels"
+              />
+            )}
+          </div>
+          {missingFonts.length > 0 ? (
+            <div className="flex items-center gap-2 text-xs text-amber-400" title="Upload the font in the Style panel to fix">
+              <AlertTriangle size={14} />
+              Missing font{missingFonts.length > 1 ? 's' : ''}: {missingFonts.join(', ')} (using {FALLBACK_FONT})
+            </div>
+          ) : (
+            <div className="text-xs text-zinc-500">{currentProject?.name ?? 'Preview Area'}</div>
+          )}
         </div>
 
         <div 
-          className="flex-1 overflow-auto flex items-center justify-center p-8 bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAAMUlEQVQ4T2NkYNgvwEAIYCQW/P///38GxgEYM2gQjIYBw2gYMIyGAcNoGDAwGgYMAwAAb6Y3wZk2zE0AAAAASUVORK5CYII=')] bg-repeat"
+          ref={stageContainerRef}
+          className="flex-1 overflow-hidden flex items-center justify-center p-8 bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAAMUlEQVQ4T2NkYNgvwEAIYCQW/P///38GxgEYM2gQjIYBw2gYMIyGAcNoGDAwGgYMAwAAb6Y3wZk2zE0AAAAASUVORK5CYII=')] bg-repeat"
           onDragOver={(e) => e.preventDefault()}
           onDrop={handleDrop}
         >
-          <div 
-            ref={previewRef}
-            className={`relative overflow-hidden shadow-2xl bg-black ${state.imageScale === 'fit' ? 'w-full max-w-5xl aspect-video' : 'inline-block'}`}
-            style={state.imageScale === 'original' && state.image ? { minWidth: '800px', minHeight: '600px' } : {}}
-          >
-            {/* Background Image */}
-            {state.image ? (
-              <img 
-                src={state.image} 
-                alt="Scene Background" 
-                className={`w-full h-full ${state.imageScale === 'fit' ? 'object-contain' : 'object-none'}`}
-              />
-            ) : (
-              <div className="absolute inset-0 flex flex-col items-center justify-center text-zinc-600">
-                <ImageIcon size={48} className="mb-4 opacity-50" />
-                <p>Drag and drop an image here</p>
-                <p className="text-sm mt-2">or use the Media panel to upload</p>
+          <div className="relative shrink-0 shadow-2xl" style={{ width: PREVIEW_REFERENCE_WIDTH * stageScale, height: stageHeight * stageScale }}>
+            <div 
+              ref={previewRef}
+              onClick={handlePreviewClick}
+              className="absolute top-0 left-0 overflow-hidden bg-black origin-top-left"
+              style={{ width: PREVIEW_REFERENCE_WIDTH, height: stageHeight, transform: `scale(${stageScale})` }}
+            >
+              {/* Background Image */}
+              {backgroundImage ? (
+                <div
+                  onPointerDown={handleBackgroundPointerDown}
+                  onPointerMove={handleBackgroundPointerMove}
+                  onPointerUp={handleBackgroundPointerUp}
+                  className={`absolute inset-0 ${isPlaying ? '' : 'cursor-move'}`}
+                >
+                  {renderBackground(backgroundImage)}
+                </div>
+              ) : (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-zinc-600">
+                  <ImageIcon size={48} className="mb-4 opacity-50" />
+                  <p>Drag and drop an image here</p>
+                  <p className="text-sm mt-2">or use the Media panel to upload</p>
+                </div>
+              )}
+
+              {/* Character Sprites */}
+              {renderSprites()}
+
+              {beat.backlog ? (
+                // History screen in place of the textbox, choices and quick menu
+                renderBacklog()
+              ) : (
+                <>
+                  {/* UI Overlay */}
+                  {(!beat.choiceMenu || beat.choiceMenu.showTextbox) && renderBox()}
+
+                  {/* Choice Menu */}
+                  {renderChoices()}
+
+                  {/* Quick Menu and Mode Badge */}
+                  {renderHud()}
+                </>
+              )}
+            </div>
+            {/* Editor-only; kept outside the scaled stage so it stays readable */}
+            {renderGuides()}
+            {beatOverflow.length > 0 && (
+              <div className="absolute top-2 left-2 max-w-[70%] px-3 py-2 bg-red-950/90 border border-red-800 rounded text-xs text-red-200 space-y-0.5 pointer-events-none shadow-lg">
+                {beatOverflow.map(o => (
+                  <div key={o.message} className="flex items-start gap-1.5">
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5 text-red-400" />
+                    {o.message}
+                  </div>
+                ))}
               </div>
             )}
+          </div>
+        </div>
 
-            {/* UI Overlay */}
-            {renderBox()}
+        {/* Beat Timeline */}
+        <div className="border-t border-zinc-800 bg-zinc-950">
+          <div className="px-4 py-2 flex items-center justify-between border-b border-zinc-800">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => goToBeat(state.currentBeat - 1)}
+                disabled={state.currentBeat === 0}
+                className="p-1.5 rounded text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Previous beat"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span className="text-xs text-zinc-400 font-mono w-16 text-center">
+                {state.currentBeat + 1} / {state.beats.length}
+              </span>
+              <button
+                onClick={() => goToBeat(state.currentBeat + 1)}
+                disabled={state.currentBeat === state.beats.length - 1}
+                className="p-1.5 rounded text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Next beat"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+            <button
+              onClick={isPlaying ? stopPlayback : startPlayback}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded text-xs font-medium transition-colors ${isPlaying ? 'bg-indigo-600 text-white hover:bg-indigo-500' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              title={isPlaying ? 'Stop playback' : 'Play with typewriter text (click the preview to advance)'}
+            >
+              {isPlaying ? <Square size={12} /> : <Play size={12} />}
+              {isPlaying ? 'Stop' : 'Play'}
+            </button>
+            <div className="flex items-center gap-1">
+              <button onClick={() => moveBeat(-1)} disabled={state.currentBeat === 0} className="p-1.5 rounded text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed" title="Move beat earlier">
+                <ArrowLeft size={16} />
+              </button>
+              <button onClick={() => moveBeat(1)} disabled={state.currentBeat === state.beats.length - 1} className="p-1.5 rounded text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed" title="Move beat later">
+                <ArrowRight size={16} />
+              </button>
+              <button onClick={duplicateBeat} className="p-1.5 rounded text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200" title="Duplicate beat">
+                <Copy size={16} />
+              </button>
+              <button onClick={deleteBeat} disabled={state.beats.length <= 1} className="p-1.5 rounded text-red-400 hover:bg-red-900/30 disabled:opacity-30 disabled:cursor-not-allowed" title="Delete beat">
+                <Trash2 size={16} />
+              </button>
+              <button onClick={addBeat} className="p-1.5 rounded text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200" title="Add beat after current">
+                <Plus size={16} />
+              </button>
+            </div>
+          </div>
+          <div className="flex gap-2 p-3 overflow-x-auto">
+            {state.beats.map((b, i) => (
+              <button
+                key={b.id}
+                onClick={() => goToBeat(i)}
+                className={`shrink-0 w-40 text-left px-3 py-2 rounded border text-xs transition-colors ${i === state.currentBeat ? 'bg-indigo-600/20 border-indigo-500' : 'bg-zinc-900 border-zinc-800 hover:bg-zinc-800'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-mono text-zinc-500">#{i + 1}</span>
+                  {b.image && <ImageIcon size={12} className="text-zinc-500" />}
+                </div>
+                <div className="font-medium text-zinc-200 truncate">{b.characterName || '—'}</div>
+                <div className="text-zinc-400 truncate">{plainText(trackText(b.text, state.display.primary)) || 'Empty line'}</div>
+              </button>
+            ))}
           </div>
         </div>
       </div>
@@ -472,6 +2282,14 @@ export default function App() {
                 <Upload size={16} />
                 Upload Image
               </button>
+              {state.currentBeat > 0 && beat.image && (
+                <button
+                  onClick={() => updateBeat({ image: null })}
+                  className="w-full mt-2 py-1.5 px-4 text-xs text-zinc-400 hover:text-zinc-200 rounded border border-zinc-800 hover:bg-zinc-900 transition-colors"
+                >
+                  Use Previous Beat's Background
+                </button>
+              )}
             </div>
             
             <div>
@@ -491,55 +2309,909 @@ export default function App() {
                 </button>
               </div>
             </div>
+
+            <div className="pt-4 border-t border-zinc-800 space-y-4">
+              <div className="flex items-center justify-between">
+                <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Framing</label>
+                <button
+                  onClick={() => updateBackground({ panX: 0, panY: 0, zoom: 100, rotation: 0, crop: DEFAULT_BACKGROUND_VIEW.crop })}
+                  className="text-xs text-zinc-400 hover:text-zinc-200"
+                >
+                  Reset
+                </button>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Drag the background on the stage to pan. Framing and filters carry over to later beats until one changes them or sets a new image.
+              </p>
+              {beat.background && state.currentBeat > 0 && !beat.image && (
+                <div className="flex items-center justify-between gap-2 text-xs text-zinc-500">
+                  <span>This beat has its own framing.</span>
+                  <button onClick={() => updateBeat({ background: null })} className="text-zinc-400 hover:text-zinc-200">
+                    Carry over previous
+                  </button>
+                </div>
+              )}
+              {([
+                { field: 'panX', label: 'Pan X', min: -100, max: 100, unit: '%' },
+                { field: 'panY', label: 'Pan Y', min: -100, max: 100, unit: '%' },
+                { field: 'zoom', label: 'Zoom', min: ZOOM_RANGE.min, max: ZOOM_RANGE.max, unit: '%' },
+                { field: 'rotation', label: 'Rotation', min: -180, max: 180, unit: '°' },
+              ] as const).map(({ field, label, min, max, unit }) => (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}: {backgroundView[field]}{unit}</label>
+                  <input 
+                    type="range" 
+                    min={min} max={max} 
+                    step={field === 'panX' || field === 'panY' ? 0.1 : 1}
+                    value={backgroundView[field]}
+                    onChange={(e) => updateBackground({ [field]: parseFloat(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Crop (% of image)</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    { field: 'x', label: 'X' },
+                    { field: 'y', label: 'Y' },
+                    { field: 'width', label: 'W' },
+                    { field: 'height', label: 'H' },
+                  ] as const).map(({ field, label }) => (
+                    <div key={field}>
+                      <span className="block text-[10px] text-zinc-500 mb-1">{label}</span>
+                      <input 
+                        type="number" 
+                        min={field === 'x' || field === 'y' ? 0 : MIN_CROP_SIZE}
+                        max={100}
+                        value={backgroundView.crop[field]}
+                        onChange={(e) => {
+                          const min = field === 'x' || field === 'y' ? 0 : MIN_CROP_SIZE;
+                          updateBackground({ crop: { ...backgroundView.crop, [field]: Math.min(Math.max(parseFloat(e.target.value) || 0, min), 100) } });
+                        }}
+                        className="w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="pt-4 border-t border-zinc-800 space-y-3">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Filters (applied in order)</label>
+              {backgroundView.filters.map((filter, index) => {
+                const info = BACKGROUND_FILTERS[filter.type];
+                return (
+                  <div key={filter.id} className="p-3 bg-zinc-900 border border-zinc-800 rounded space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-zinc-300">{info.label}: {filter.amount}{info.unit}</span>
+                      {(filter.type === 'tint' || filter.type === 'vignette') && (
+                        <input 
+                          type="color" 
+                          value={filter.color}
+                          onChange={(e) => updateBackgroundFilter(filter.id, { color: e.target.value })}
+                          className="w-6 h-6 rounded cursor-pointer bg-transparent border-0 p-0"
+                        />
+                      )}
+                      <button onClick={() => moveBackgroundFilter(filter.id, -1)} disabled={index === 0} className="p-1 text-zinc-400 hover:text-zinc-200 disabled:opacity-30" title="Apply earlier">
+                        <ChevronUp size={14} />
+                      </button>
+                      <button onClick={() => moveBackgroundFilter(filter.id, 1)} disabled={index === backgroundView.filters.length - 1} className="p-1 text-zinc-400 hover:text-zinc-200 disabled:opacity-30" title="Apply later">
+                        <ChevronDown size={14} />
+                      </button>
+                      <button onClick={() => updateBackground({ filters: backgroundView.filters.filter(f => f.id !== filter.id) })} className="p-1 text-zinc-400 hover:text-red-400" title="Remove filter">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    <input 
+                      type="range" 
+                      min="0" max={info.max} 
+                      value={filter.amount}
+                      onChange={(e) => updateBackgroundFilter(filter.id, { amount: parseInt(e.target.value) })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </div>
+                );
+              })}
+              <select
+                value=""
+                onChange={(e) => { if (e.target.value) addBackgroundFilter(e.target.value as BackgroundFilterType); }}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">Add filter...</option>
+                {(Object.keys(BACKGROUND_FILTERS) as BackgroundFilterType[]).map(type => (
+                  <option key={type} value={type}>{BACKGROUND_FILTERS[type].label}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </Accordion>
 
-        <Accordion title="Script" icon={Type} defaultOpen>
+        <Accordion title="Characters" icon={Users}>
           <div className="space-y-4">
-            <div>
-              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Character Name</label>
+            <input 
+              type="file" 
+              accept="image/*" 
+              className="hidden" 
+              ref={expressionInputRef}
+              onChange={handleExpressionUpload}
+            />
+            {state.characters.map(c => (
+              <div key={c.id} className="p-3 bg-zinc-900 border border-zinc-800 rounded space-y-3">
+                <div className="flex gap-2">
+                  <input 
+                    type="text" 
+                    value={characterNameDrafts[c.id] ?? c.name}
+                    onChange={(e) => setCharacterNameDrafts(prev => ({ ...prev, [c.id]: e.target.value }))}
+                    onBlur={() => commitCharacterName(c.id)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                    style={{ color: characterNameStyle(state.template.nameStyle, c).color }}
+                    title="Display name; beats with this speaker follow renames"
+                  />
+                  <button 
+                    onClick={() => addSprite(c)}
+                    disabled={c.expressions.length === 0}
+                    className="px-2 text-xs bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-700 transition-colors"
+                    title="Place on current beat"
+                  >
+                    Place
+                  </button>
+                  <button 
+                    onClick={() => deleteCharacter(c.id)}
+                    className="p-2 bg-zinc-950 border border-zinc-800 rounded text-red-400 hover:bg-red-900/30 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {c.expressions.map(ex => (
+                    <span key={ex.name} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-zinc-800 rounded text-xs text-zinc-300">
+                      {ex.name}
+                      <button onClick={() => deleteExpression(c.id, ex.name)} className="text-zinc-500 hover:text-red-400">
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                  {c.expressions.length === 0 && <span className="text-xs text-zinc-500">No expressions yet</span>}
+                </div>
+                <div className="flex gap-2">
+                  <input 
+                    type="text" 
+                    value={newExpressionNames[c.id] ?? ''}
+                    onChange={(e) => setNewExpressionNames(prev => ({ ...prev, [c.id]: e.target.value }))}
+                    placeholder="Expression, e.g. smile"
+                    className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-xs focus:outline-none focus:border-indigo-500"
+                  />
+                  <button 
+                    onClick={() => {
+                      requestExpressionUpload(c.id, newExpressionNames[c.id] ?? '');
+                      setNewExpressionNames(prev => ({ ...prev, [c.id]: '' }));
+                    }}
+                    disabled={!(newExpressionNames[c.id] ?? '').trim()}
+                    className="px-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-700 transition-colors"
+                    title="Upload expression image"
+                  >
+                    <Upload size={14} />
+                  </button>
+                </div>
+                <button 
+                  onClick={() => setExpandedCharacterId(expandedCharacterId === c.id ? null : c.id)}
+                  className="w-full flex items-center justify-between text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+                >
+                  <span>Names, Name Style & Default Sprite</span>
+                  {expandedCharacterId === c.id ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+                {expandedCharacterId === c.id && renderCharacterDetails(c)}
+              </div>
+            ))}
+
+            <div className="flex gap-2">
               <input 
                 type="text" 
-                value={state.characterName}
-                onChange={(e) => updateState({ characterName: e.target.value })}
-                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
-                placeholder="e.g. Narrator"
+                value={newCharacterName}
+                onChange={(e) => setNewCharacterName(e.target.value)}
+                placeholder="New character name..."
+                className="flex-1 bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
               />
+              <button 
+                onClick={addCharacter}
+                disabled={!newCharacterName.trim()}
+                className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-700 transition-colors"
+              >
+                <Plus size={16} />
+              </button>
             </div>
-            <div>
-              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Primary Dialogue</label>
-              <textarea 
-                value={state.dialogue}
-                onChange={(e) => updateState({ dialogue: e.target.value })}
-                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm h-24 resize-y focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
-                placeholder="Enter dialogue here..."
+
+            {beat.sprites.length > 0 && (
+              <div className="pt-4 border-t border-zinc-800 space-y-3">
+                <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Sprites on This Beat (back to front)</label>
+                <div className="space-y-1">
+                  {beat.sprites.map(sp => (
+                    <button
+                      key={sp.id}
+                      onClick={() => setSelectedSpriteId(sp.id)}
+                      className={`w-full text-left px-3 py-1.5 rounded text-sm border transition-colors ${selectedSpriteId === sp.id ? 'bg-indigo-600 border-indigo-500' : 'bg-zinc-900 border-zinc-800 hover:bg-zinc-800'}`}
+                    >
+                      {state.characters.find(c => c.id === sp.characterId)?.name} <span className="text-zinc-400">({sp.expression})</span>
+                    </button>
+                  ))}
+                </div>
+
+                {selectedSprite && (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Expression</label>
+                      <select 
+                        value={selectedSprite.expression}
+                        onChange={(e) => updateSprite(selectedSprite.id, { expression: e.target.value })}
+                        className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                      >
+                        {state.characters.find(c => c.id === selectedSprite.characterId)?.expressions.map(ex => (
+                          <option key={ex.name} value={ex.name}>{ex.name}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Position</label>
+                      <div className="flex bg-zinc-900 rounded p-1 border border-zinc-800">
+                        {SPRITE_SNAP_POINTS.map(point => (
+                          <button 
+                            key={point.label}
+                            className={`flex-1 text-sm py-1.5 rounded ${selectedSprite.x === point.x ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                            onClick={() => updateSprite(selectedSprite.id, { x: point.x })}
+                          >
+                            {point.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Scale: {Math.round(selectedSprite.scale * 100)}%</label>
+                      <input 
+                        type="range" 
+                        min="20" max="250" 
+                        value={Math.round(selectedSprite.scale * 100)}
+                        onChange={(e) => updateSprite(selectedSprite.id, { scale: parseInt(e.target.value) / 100 })}
+                        className="w-full accent-indigo-500"
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-zinc-300">Dim When Not Speaking</label>
+                      <button 
+                        onClick={() => updateSprite(selectedSprite.id, { dimWhenSilent: !selectedSprite.dimWhenSilent })}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${selectedSprite.dimWhenSilent ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                      >
+                        <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${selectedSprite.dimWhenSilent ? 'translate-x-5' : 'translate-x-0'}`} />
+                      </button>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <button onClick={() => updateSprite(selectedSprite.id, { flipped: !selectedSprite.flipped })} className={`flex-1 py-2 rounded border transition-colors flex items-center justify-center ${selectedSprite.flipped ? 'bg-zinc-700 border-zinc-600' : 'bg-zinc-900 border-zinc-800 hover:bg-zinc-800'}`} title="Flip horizontally">
+                        <FlipHorizontal size={16} />
+                      </button>
+                      <button onClick={() => moveSpriteLayer(selectedSprite.id, 1)} className="flex-1 py-2 bg-zinc-900 border border-zinc-800 rounded hover:bg-zinc-800 transition-colors flex items-center justify-center" title="Bring forward">
+                        <BringToFront size={16} />
+                      </button>
+                      <button onClick={() => moveSpriteLayer(selectedSprite.id, -1)} className="flex-1 py-2 bg-zinc-900 border border-zinc-800 rounded hover:bg-zinc-800 transition-colors flex items-center justify-center" title="Send backward">
+                        <SendToBack size={16} />
+                      </button>
+                      <button onClick={() => removeSprite(selectedSprite.id)} className="flex-1 py-2 bg-zinc-900 border border-zinc-800 rounded text-red-400 hover:bg-red-900/30 transition-colors flex items-center justify-center" title="Remove from beat">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </Accordion>
+
+        <Accordion title="Script" icon={Type} defaultOpen>
+          <div className="space-y-4">
+            <div className="pb-4 border-b border-zinc-800 space-y-3">
+              <input 
+                type="file" 
+                accept=".rpy,.txt,text/plain" 
+                className="hidden" 
+                ref={scriptInputRef}
+                onChange={handleImportScript}
               />
+              <button 
+                onClick={() => scriptInputRef.current?.click()}
+                className="w-full py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <FileText size={16} />
+                Import Script (Ren'Py / Text)
+              </button>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-zinc-300">Replace Existing Beats</label>
+                <button 
+                  onClick={() => setReplaceOnImport(!replaceOnImport)}
+                  className={`w-10 h-5 rounded-full relative transition-colors ${replaceOnImport ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                >
+                  <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${replaceOnImport ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+              </div>
+              {importReport && (
+                <div className="p-3 bg-zinc-900 border border-zinc-800 rounded text-xs space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-zinc-300">
+                      Imported {importReport.lines.length} line{importReport.lines.length === 1 ? '' : 's'} from <span className="font-mono">{importReport.fileName}</span> ({importReport.format === 'renpy' ? "Ren'Py" : 'screenplay'})
+                    </span>
+                    <button onClick={() => setImportReport(null)} className="text-zinc-500 hover:text-zinc-300">
+                      <X size={14} />
+                    </button>
+                  </div>
+                  {importReport.issues.length > 0 && (
+                    <div className="space-y-1 max-h-40 overflow-y-auto">
+                      {importReport.issues.map(issue => (
+                        <div key={`${issue.lineNumber}-${issue.message}`} className="flex gap-2 text-amber-400">
+                          <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                          <div>
+                            <span className="font-mono">Line {issue.lineNumber}:</span> {issue.message}
+                            <div className="font-mono text-zinc-500 truncate">{issue.content.trim()}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
             <div>
-              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Secondary Dialogue (Translation/Sub)</label>
-              <textarea 
-                value={state.secondaryDialogue}
-                onChange={(e) => updateState({ secondaryDialogue: e.target.value })}
-                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm h-20 resize-y focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
-                placeholder="Optional secondary language..."
-              />
+              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Character Name</label>
+              <div className="flex gap-2">
+                <div className="relative flex-1 min-w-0">
+                  <input 
+                    type="text" 
+                    value={beat.characterName}
+                    onChange={(e) => {
+                      updateBeat({ characterName: e.target.value });
+                      setSpeakerHighlight(0);
+                    }}
+                    onFocus={() => setSpeakerHighlight(0)}
+                    onBlur={() => setSpeakerHighlight(null)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        setSpeakerHighlight(null);
+                      } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                        e.preventDefault();
+                        const step = e.key === 'ArrowDown' ? 1 : -1;
+                        setSpeakerHighlight(h => Math.max(0, Math.min((h ?? -step) + step, speakerSuggestions.length - 1)));
+                      } else if (e.key === 'Enter' && speakerHighlight !== null && speakerSuggestions.length > 0) {
+                        pickSpeaker(speakerSuggestions[Math.min(speakerHighlight, speakerSuggestions.length - 1)]);
+                      }
+                    }}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                    placeholder="e.g. Narrator"
+                    role="combobox"
+                    aria-expanded={speakerHighlight !== null && speakerSuggestions.length > 0}
+                  />
+                  {speakerHighlight !== null && speakerSuggestions.length > 0 && (
+                    <div className="absolute z-20 left-0 right-0 mt-1 max-h-48 overflow-y-auto bg-zinc-900 border border-zinc-700 rounded shadow-lg" role="listbox">
+                      {speakerSuggestions.map((name, i) => {
+                        const character = findCharacter(state.characters, name);
+                        return (
+                          <div
+                            key={name}
+                            role="option"
+                            aria-selected={i === Math.min(speakerHighlight, speakerSuggestions.length - 1)}
+                            // Picked on mouse down, before the input's blur closes the list
+                            onMouseDown={(e) => {
+                              e.preventDefault();
+                              pickSpeaker(name);
+                            }}
+                            onMouseEnter={() => setSpeakerHighlight(i)}
+                            className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${i === Math.min(speakerHighlight, speakerSuggestions.length - 1) ? 'bg-zinc-800 text-white' : 'text-zinc-300'}`}
+                          >
+                            <span className="w-2.5 h-2.5 rounded-full shrink-0 border border-zinc-600" style={{ backgroundColor: characterNameStyle(activeTemplate.nameStyle, character).color }} />
+                            <span className="flex-1 truncate">{name}</span>
+                            {!character && <span className="text-[10px] text-zinc-500">not on roster</span>}
+                            {character?.defaultExpression && !beat.sprites.some(sp => sp.characterId === character.id) && (
+                              <span className="text-[10px] text-zinc-500">+ {character.defaultExpression}</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+                {beat.characterName.trim() && !findCharacter(state.characters, beat.characterName) && (
+                  <button 
+                    onClick={() => addSpeakerToRoster(beat.characterName)}
+                    className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded border border-zinc-700 transition-colors"
+                    title="Add to the character roster"
+                  >
+                    <Users size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+            {state.languages.map(language => {
+              const role = language.code === state.display.primary ? 'primary' : language.code === state.display.secondary ? 'secondary' : null;
+              const text = trackText(beat.text, language.code);
+              return (
+                <div key={language.code}>
+                  <label className="flex items-center justify-between text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">
+                    <span>{language.name} <span className="font-mono normal-case text-zinc-500">{language.code}</span></span>
+                    {role && <span className="text-[10px] text-indigo-400 normal-case tracking-normal">{role === 'primary' ? 'Primary line' : 'Secondary line'}</span>}
+                  </label>
+                  <textarea 
+                    value={text}
+                    onChange={(e) => updateBeatText(language.code, e.target.value)}
+                    className={`w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm resize-y focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 ${role === 'primary' ? 'h-24' : 'h-20'}`}
+                    placeholder={`${language.name} line...`}
+                  />
+                  {renderMarkupIssues(text)}
+                  {role && renderOverflowWarnings(role)}
+                </div>
+              );
+            })}
+            {renderOverflowWarnings('textbox')}
+            <p className="text-[10px] text-zinc-500">Markup: {'{b}'} {'{i}'} {'{shake}'} {'{color=#f00}'} {'{size=+4}'} {'{rb}漢字{/rb}{rt}かんじ{/rt}'} — {'{{'} for a literal brace</p>
+            <div>
+              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Template Override</label>
+              <select
+                value={beat.templateId ?? ''}
+                onChange={(e) => updateBeat({ templateId: e.target.value || null })}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">Scene Template ({state.template.name})</option>
+                {[...DEFAULT_TEMPLATES, ...state.savedTemplates].map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {activeTemplate.boxStyle.layout === 'nvl' && (
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-zinc-300">Start New NVL Page</label>
+                <button 
+                  onClick={() => updateBeat({ nvlPageBreak: !beat.nvlPageBreak })}
+                  className={`w-10 h-5 rounded-full relative transition-colors ${beat.nvlPageBreak ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                >
+                  <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${beat.nvlPageBreak ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+              </div>
+            )}
+
+            <div className="pt-4 border-t border-zinc-800 space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-zinc-300">
+                  Choice Menu <span className="text-xs text-zinc-500 font-normal">({languageName(state.languages, state.display.primary)})</span>
+                </label>
+                <button 
+                  onClick={toggleChoiceMenu}
+                  className={`w-10 h-5 rounded-full relative transition-colors ${beat.choiceMenu ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                >
+                  <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${beat.choiceMenu ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+              </div>
+              {beat.choiceMenu && (
+                <>
+                  {beat.choiceMenu.options.map((option, i) => (
+                    <div key={option.id}>
+                      <div className="flex gap-2">
+                        <input 
+                          type="text" 
+                          value={trackText(option.text, state.display.primary)}
+                          onChange={(e) => updateChoiceOptions(beat.choiceMenu!.options.map(o => o.id === option.id ? { ...o, text: { ...o.text, [state.display.primary]: e.target.value } } : o))}
+                          className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                          placeholder={`Choice ${i + 1}`}
+                        />
+                        <select 
+                          value={option.state}
+                          onChange={(e) => updateChoiceOptions(beat.choiceMenu!.options.map(o => o.id === option.id ? { ...o, state: e.target.value as ChoiceOption['state'] } : o))}
+                          className="w-24 bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-xs focus:outline-none focus:border-indigo-500"
+                        >
+                          <option value="normal">Normal</option>
+                          <option value="hover">Hover</option>
+                          <option value="chosen">Chosen</option>
+                          <option value="disabled">Disabled</option>
+                        </select>
+                        <button 
+                          onClick={() => updateChoiceOptions(beat.choiceMenu!.options.filter(o => o.id !== option.id))}
+                          disabled={beat.choiceMenu!.options.length <= CHOICE_OPTION_LIMITS.min}
+                          className="p-2 bg-zinc-900 border border-zinc-800 rounded text-red-400 hover:bg-red-900/30 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                      {renderMarkupIssues(trackText(option.text, state.display.primary))}
+                    </div>
+                  ))}
+                  <button 
+                    onClick={() => updateChoiceOptions([...beat.choiceMenu!.options, { id: generateId('choice'), text: {}, state: 'normal' }])}
+                    disabled={beat.choiceMenu.options.length >= CHOICE_OPTION_LIMITS.max}
+                    className="w-full py-1.5 px-4 text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-800 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Plus size={12} />
+                    Add Choice (max {CHOICE_OPTION_LIMITS.max})
+                  </button>
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-zinc-300">Show Textbox Behind Menu</label>
+                    <button 
+                      onClick={() => updateBeat({ choiceMenu: { ...beat.choiceMenu!, showTextbox: !beat.choiceMenu!.showTextbox } })}
+                      className={`w-10 h-5 rounded-full relative transition-colors ${beat.choiceMenu.showTextbox ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                    >
+                      <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${beat.choiceMenu.showTextbox ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="pt-4 border-t border-zinc-800 space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-zinc-300">
+                  Backlog Screen <span className="text-xs text-zinc-500 font-normal">({languageName(state.languages, state.display.primary)})</span>
+                </label>
+                <button 
+                  onClick={toggleBacklog}
+                  className={`w-10 h-5 rounded-full relative transition-colors ${beat.backlog ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                  title="Show the history screen on this beat instead of the textbox"
+                >
+                  <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${beat.backlog ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+              </div>
+              {beat.backlog && (
+                <>
+                  <p className="text-xs text-zinc-500">This beat shows its history instead of its own line. Entries run oldest to newest.</p>
+                  {beat.backlog.entries.map((entry, i) => (
+                    <div key={entry.id} className="flex gap-2">
+                      <input 
+                        type="text" 
+                        value={entry.characterName}
+                        onChange={(e) => updateBacklogEntries(beat.backlog!.entries.map(en => en.id === entry.id ? { ...en, characterName: e.target.value } : en))}
+                        className="w-24 bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                        placeholder="Narration"
+                      />
+                      <input 
+                        type="text" 
+                        value={trackText(entry.text, state.display.primary)}
+                        onChange={(e) => updateBacklogEntries(beat.backlog!.entries.map(en => en.id === entry.id ? { ...en, text: { ...en.text, [state.display.primary]: e.target.value } } : en))}
+                        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                        placeholder={`Entry ${i + 1}`}
+                      />
+                      <button 
+                        onClick={() => updateBacklogEntries(beat.backlog!.entries.filter(en => en.id !== entry.id))}
+                        className="p-2 bg-zinc-900 border border-zinc-800 rounded text-red-400 hover:bg-red-900/30 transition-colors"
+                        title="Remove entry"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                  <button 
+                    onClick={() => updateBacklogEntries([...beat.backlog!.entries, { id: generateId('entry'), characterName: '', text: {} }])}
+                    className="w-full py-1.5 px-4 text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 rounded border border-zinc-800 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Plus size={12} />
+                    Add Entry
+                  </button>
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Paste Entries</label>
+                    <textarea 
+                      value={backlogPaste}
+                      onChange={(e) => setBacklogPaste(e.target.value)}
+                      className="w-full h-20 bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm resize-y focus:outline-none focus:border-indigo-500"
+                      placeholder={'Amy: Did you hear that?\nBen: Hear what?'}
+                    />
+                    <button 
+                      onClick={pasteBacklogEntries}
+                      disabled={!backlogPaste.trim()}
+                      className="w-full mt-2 py-1.5 px-4 text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-800 transition-colors"
+                    >
+                      Replace Entries With Pasted Lines
+                    </button>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Scrolled Back: {beat.backlog.scroll}%</label>
+                    <input 
+                      type="range" 
+                      min="0" max="100" 
+                      value={beat.backlog.scroll}
+                      onChange={(e) => updateBeat({ backlog: { ...beat.backlog!, scroll: parseInt(e.target.value) } })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </Accordion>
+
+        <Accordion title="Languages" icon={Languages}>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Primary</label>
+                <select 
+                  value={state.display.primary}
+                  onChange={(e) => updateDisplay({ primary: e.target.value })}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                >
+                  {state.languages.map(l => (
+                    <option key={l.code} value={l.code}>{l.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Secondary</label>
+                <select 
+                  value={state.display.secondary ?? ''}
+                  onChange={(e) => updateDisplay({ secondary: e.target.value || null })}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="">None</option>
+                  {state.languages.filter(l => l.code !== state.display.primary).map(l => (
+                    <option key={l.code} value={l.code}>{l.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Tracks</label>
+              {state.languages.map(language => {
+                const translated = state.beats.filter(b => b.text[language.code]?.trim()).length;
+                return (
+                  <div key={language.code} className="p-2 bg-zinc-900 border border-zinc-800 rounded space-y-1.5">
+                    <div className="flex gap-2">
+                      <input 
+                        type="text" 
+                        value={language.name}
+                        onChange={(e) => updateLanguageName(language.code, e.target.value)}
+                        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-sm focus:outline-none focus:border-indigo-500"
+                      />
+                      <input 
+                        type="text" 
+                        value={codeDrafts[language.code] ?? language.code}
+                        onChange={(e) => setCodeDrafts(prev => ({ ...prev, [language.code]: e.target.value }))}
+                        onBlur={() => commitLanguageCode(language.code)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        className="w-20 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-sm font-mono focus:outline-none focus:border-indigo-500"
+                        title="Language code"
+                      />
+                      <button 
+                        onClick={() => deleteLanguage(language.code)}
+                        disabled={state.languages.length <= 1}
+                        className="p-1.5 text-zinc-500 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Delete track"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    <div className={`text-[10px] ${translated < state.beats.length ? 'text-amber-400' : 'text-zinc-500'}`}>
+                      {translated} of {state.beats.length} beat{state.beats.length === 1 ? '' : 's'} written
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Add Track</label>
+              <select 
+                value=""
+                onChange={(e) => {
+                  const preset = LANGUAGE_PRESETS.find(l => l.code === e.target.value);
+                  if (preset) setNewLanguage(preset);
+                }}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">Choose a common language...</option>
+                {LANGUAGE_PRESETS.filter(p => !state.languages.some(l => l.code === p.code)).map(p => (
+                  <option key={p.code} value={p.code}>{p.name} ({p.code})</option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <input 
+                  type="text" 
+                  value={newLanguage.name}
+                  onChange={(e) => setNewLanguage(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name"
+                  className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                />
+                <input 
+                  type="text" 
+                  value={newLanguage.code}
+                  onChange={(e) => setNewLanguage(prev => ({ ...prev, code: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && addLanguage()}
+                  placeholder="Code"
+                  className="w-20 bg-zinc-900 border border-zinc-800 rounded px-3 py-1.5 text-sm font-mono focus:outline-none focus:border-indigo-500"
+                />
+                <button 
+                  onClick={addLanguage}
+                  disabled={!newLanguage.code.trim()}
+                  className="px-3 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-700 transition-colors"
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+            </div>
+
+            {speakers.length > 0 && (
+              <div className="pt-4 border-t border-zinc-800 space-y-2">
+                <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Speaker Names</label>
+                {speakers.map(name => (
+                  <div key={name} className="p-2 bg-zinc-900 border border-zinc-800 rounded space-y-1.5">
+                    <div className="text-sm text-zinc-200 truncate">{name}</div>
+                    {state.languages.map(language => (
+                      <div key={language.code} className="flex items-center gap-2">
+                        <span className="w-14 shrink-0 text-[10px] font-mono text-zinc-500 truncate">{language.code}</span>
+                        <input 
+                          type="text" 
+                          value={trackText(findCharacter(state.characters, name)?.names ?? {}, language.code)}
+                          onChange={(e) => updateSpeakerName(name, language.code, e.target.value)}
+                          placeholder={name}
+                          className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs focus:outline-none focus:border-indigo-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="pt-4 border-t border-zinc-800 space-y-3">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Translation Files</label>
+              <div className="flex gap-2">
+                <select 
+                  value={translationFormat}
+                  onChange={(e) => setTranslationFormat(e.target.value as LocalizationFormat)}
+                  className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="csv">CSV (all languages)</option>
+                  <option value="xliff-1.2">XLIFF 1.2</option>
+                  <option value="xliff-2.0">XLIFF 2.0</option>
+                </select>
+                {translationFormat !== 'csv' && (
+                  <select 
+                    value={xliffTarget ?? ''}
+                    onChange={(e) => setTranslationTarget(e.target.value)}
+                    className="w-28 bg-zinc-900 border border-zinc-800 rounded px-2 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                    title="Target language"
+                  >
+                    {state.languages.filter(l => l.code !== state.display.primary).map(l => (
+                      <option key={l.code} value={l.code}>→ {l.code}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {translationFormat !== 'csv' && (
+                <p className="text-[10px] text-zinc-500">
+                  {xliffTarget
+                    ? `Source is the primary track (${state.display.primary}).`
+                    : 'Add a second language track to export XLIFF.'}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button 
+                  onClick={handleExportTranslations}
+                  disabled={translationFormat !== 'csv' && !xliffTarget}
+                  className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Download size={14} />
+                  Export
+                </button>
+                <input 
+                  type="file" 
+                  accept=".csv,.xlf,.xliff,.xml,text/csv" 
+                  className="hidden" 
+                  ref={translationInputRef}
+                  onChange={handleImportTranslations}
+                />
+                <button 
+                  onClick={() => translationInputRef.current?.click()}
+                  className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Upload size={14} />
+                  Import
+                </button>
+              </div>
+
+              {localizationDiff && (
+                <div className="p-3 bg-zinc-900 border border-zinc-800 rounded text-xs space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-zinc-300">
+                      <span className="font-mono">{localizationDiff.fileName}</span>: {localizationDiff.changed.length} changed, {localizationDiff.unchanged} unchanged
+                    </span>
+                    <button onClick={() => setLocalizationDiff(null)} className="text-zinc-500 hover:text-zinc-300">
+                      <X size={14} />
+                    </button>
+                  </div>
+                  {localizationDiff.newLanguages.length > 0 && (
+                    <div className="text-indigo-300">Adds tracks: {localizationDiff.newLanguages.join(', ')}</div>
+                  )}
+                  {localizationDiff.changed.length > 0 && (
+                    <div className="space-y-1.5 max-h-48 overflow-y-auto">
+                      {localizationDiff.changed.map(change => (
+                        <div key={`${change.id}-${change.language}`}>
+                          <div className="text-zinc-500">{change.context} · <span className="font-mono">{change.language}</span></div>
+                          {change.before && <div className="text-red-400/80 line-through whitespace-pre-wrap break-words">{change.before}</div>}
+                          <div className="text-emerald-400 whitespace-pre-wrap break-words">{change.after}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {localizationDiff.missing.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="flex gap-2 text-amber-400">
+                        <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                        {localizationDiff.missing.length} line{localizationDiff.missing.length === 1 ? ' is' : 's are'} missing from the file and stay as they are
+                      </div>
+                      <div className="text-zinc-500 max-h-20 overflow-y-auto">{localizationDiff.missing.map(unit => unit.context).join(', ')}</div>
+                    </div>
+                  )}
+                  {localizationDiff.orphaned.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="flex gap-2 text-amber-400">
+                        <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                        {localizationDiff.orphaned.length} ID{localizationDiff.orphaned.length === 1 ? ' matches' : 's match'} nothing in this project and will be skipped
+                      </div>
+                      <div className="font-mono text-zinc-500 max-h-20 overflow-y-auto break-all">{localizationDiff.orphaned.join(', ')}</div>
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={applyTranslations}
+                      disabled={localizationDiff.changed.length === 0 && localizationDiff.newLanguages.length === 0}
+                      className="flex-1 py-1.5 px-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded transition-colors"
+                    >
+                      Apply Changes
+                    </button>
+                    <button 
+                      onClick={() => setLocalizationDiff(null)}
+                      className="flex-1 py-1.5 px-3 bg-zinc-800 hover:bg-zinc-700 rounded border border-zinc-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </Accordion>
 
         <Accordion title="Style & Templates" icon={Palette} defaultOpen>
           <div className="flex space-x-1 mb-4 overflow-x-auto pb-2 scrollbar-hide">
-            {['template', 'name', 'dialogue', 'secondary', 'box'].map(tab => (
+            {['template', 'name', 'plate', 'dialogue', 'secondary', 'box', 'choice', 'hud', 'backlog', 'languages'].map(tab => (
               <button 
                 key={tab}
                 onClick={() => setStyleTab(tab as any)} 
                 className={`px-3 py-1.5 text-xs font-medium rounded whitespace-nowrap transition-colors ${styleTab === tab ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}
               >
-                {tab.charAt(0).toUpperCase() + tab.slice(1)}
+                {tab === 'hud' ? 'HUD' : tab.charAt(0).toUpperCase() + tab.slice(1)}
               </button>
             ))}
           </div>
 
+          <input 
+            type="file" 
+            accept=".ttf,.otf,.woff,.woff2" 
+            className="hidden" 
+            ref={fontInputRef}
+            onChange={handleFontUpload}
+          />
+          <input 
+            type="file" 
+            accept="image/*" 
+            className="hidden" 
+            ref={frameInputRef}
+            onChange={handleFrameUpload}
+          />
+          <input 
+            type="file" 
+            accept={`${TEMPLATE_FILE_EXTENSION},.json`} 
+            className="hidden" 
+            ref={templateInputRef}
+            onChange={handleImportTemplates}
+          />
           <div className="pt-2">
             {styleTab === 'template' && (
               <div className="space-y-6">
@@ -558,17 +3230,32 @@ export default function App() {
                   </div>
                 </div>
 
-                {state.savedTemplates.length > 0 && (
-                  <div>
-                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">My Templates</label>
-                    <div className="space-y-2">
-                      {state.savedTemplates.map(t => (
+                <div>
+                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">My Templates</label>
+                  <div className="space-y-2">
+                    {state.savedTemplates.map(t => {
+                      const parentName = t.parentId && allTemplates.find(p => p.id === t.parentId)?.name;
+                      const changes = Object.keys(t.overrides).length;
+                      return (
                         <div key={t.id} className="flex gap-2">
                           <button
                             onClick={() => applyTemplate(t)}
-                            className={`flex-1 text-left px-3 py-2 rounded text-sm transition-colors ${state.template.id === t.id ? 'bg-indigo-600 border-indigo-500' : 'bg-zinc-900 border-zinc-800 hover:bg-zinc-800'} border`}
+                            className={`flex-1 min-w-0 text-left px-3 py-2 rounded text-sm transition-colors ${state.template.id === t.id ? 'bg-indigo-600 border-indigo-500' : 'bg-zinc-900 border-zinc-800 hover:bg-zinc-800'} border`}
+                            title={t.parentId ? Object.keys(t.overrides).join('\n') : undefined}
+                          >
+                            <span className="block truncate">{t.name}</span>
+                            {t.parentId && (
+                              <span className="block text-[10px] text-zinc-400 truncate">
+                                {parentName ? `Extends ${parentName}` : 'Parent not in this project'} · {changes} {changes === 1 ? 'change' : 'changes'}
+                              </span>
+                            )}
+                          </button>
+                          <button 
+                            onClick={() => exportTemplates([t], fileSlug(t.name))}
+                            className="p-2 bg-zinc-900 border border-zinc-800 rounded text-zinc-300 hover:bg-zinc-800 transition-colors"
+                            title={`Export as ${TEMPLATE_FILE_EXTENSION} file`}
                           >
-                            {t.name}
+                            <Download size={16} />
                           </button>
                           <button 
                             onClick={() => deleteTemplate(t.id)}
@@ -577,13 +3264,97 @@ export default function App() {
                             <Trash2 size={16} />
                           </button>
                         </div>
+                      );
+                    })}
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <button 
+                      onClick={() => templateInputRef.current?.click()}
+                      className="flex-1 py-1.5 px-3 text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 rounded border border-zinc-800 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Upload size={12} />
+                      Import
+                    </button>
+                    <button 
+                      onClick={() => exportTemplates(state.savedTemplates, 'template-pack')}
+                      disabled={state.savedTemplates.length === 0}
+                      className="flex-1 py-1.5 px-3 text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed rounded border border-zinc-800 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Download size={12} />
+                      Export All as Pack
+                    </button>
+                  </div>
+                </div>
+
+                {state.fonts.length > 0 && (
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Project Fonts</label>
+                    <div className="space-y-2">
+                      {state.fonts.map(f => (
+                        <div key={f.family} className="flex gap-2 items-center">
+                          <div className="flex-1 px-3 py-2 rounded text-sm bg-zinc-900 border border-zinc-800 truncate" style={{ fontFamily: fontStack(f.family, loadedFonts) }}>
+                            {f.family}
+                            {failedFonts.has(f.family) && <span className="ml-2 text-xs text-amber-400">(failed to load)</span>}
+                          </div>
+                          <button 
+                            onClick={() => deleteFont(f.family)}
+                            className="p-2 bg-zinc-900 border border-zinc-800 rounded text-red-400 hover:bg-red-900/30 transition-colors"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
                       ))}
                     </div>
                   </div>
                 )}
 
-                <div className="pt-4 border-t border-zinc-800">
-                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Save Current Style</label>
+                <div className="pt-4 border-t border-zinc-800 space-y-3">
+                  <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Save Current Style</label>
+                  {state.savedTemplates.some(t => t.id === state.template.id) && (
+                    <button 
+                      onClick={updateSavedTemplate}
+                      className="w-full py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Save size={16} />
+                      Save Changes to "{state.template.name}"
+                    </button>
+                  )}
+                  <div>
+                    <label className="block text-xs text-zinc-500 mb-1">Extends</label>
+                    <select 
+                      value={newTemplateParent?.id ?? ''}
+                      onChange={(e) => setNewTemplateParentId(e.target.value)}
+                      className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                    >
+                      <option value="">Nothing (standalone copy)</option>
+                      {allTemplates.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {newTemplateParent && (
+                    <div>
+                      <p className="text-xs text-zinc-500 mb-1">
+                        {pendingOverrides.length === 0
+                          ? `Same as ${newTemplateParent.name}; the new template follows it entirely.`
+                          : `Keeps ${pendingOverrides.length} ${pendingOverrides.length === 1 ? 'change' : 'changes'}; everything else follows ${newTemplateParent.name}.`}
+                      </p>
+                      <div className="max-h-32 overflow-y-auto space-y-1">
+                        {pendingOverrides.map(path => (
+                          <div key={path} className="flex items-center gap-2 text-xs">
+                            <span className="flex-1 truncate font-mono text-zinc-300">{path}</span>
+                            <button 
+                              onClick={() => revertToParent(path)}
+                              className="text-zinc-500 hover:text-zinc-200 transition-colors"
+                              title={`Use the value from ${newTemplateParent.name}`}
+                            >
+                              <Undo2 size={12} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   <div className="flex gap-2">
                     <input 
                       type="text" 
@@ -601,80 +3372,769 @@ export default function App() {
                     </button>
                   </div>
                 </div>
-              </div>
-            )}
-
-            {styleTab === 'name' && renderTextStyleControls('nameStyle', 'Character Name')}
-            {styleTab === 'dialogue' && renderTextStyleControls('dialogueStyle', 'Primary Dialogue')}
-            {styleTab === 'secondary' && renderTextStyleControls('secondaryDialogueStyle', 'Secondary Dialogue')}
 
-            {styleTab === 'box' && (
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Box Type</label>
+                <div className="pt-4 border-t border-zinc-800 space-y-3">
+                  <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Export to Engine</label>
                   <select 
-                    value={state.template.boxStyle.type}
-                    onChange={(e) => updateBoxStyle({ type: e.target.value as any })}
+                    value={engineTarget}
+                    onChange={(e) => setEngineTarget(e.target.value)}
                     className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
                   >
-                    <option value="gradient">Gradient (Cinematic)</option>
-                    <option value="solid">Solid Box</option>
-                    <option value="fantasy">Fantasy Border</option>
-                    <option value="romance">Romance Border</option>
+                    {ENGINE_EXPORTERS.map(exporter => (
+                      <option key={exporter.id} value={exporter.id}>{exporter.label}</option>
+                    ))}
                   </select>
+                  <p className="text-xs text-zinc-500">Laid out for {state.exportSize.width} × {state.exportSize.height}, the export size set in the Project panel.</p>
+                  <button 
+                    onClick={handleExportToEngine}
+                    className="w-full py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Code size={16} />
+                    Export "{state.template.name}"
+                  </button>
                 </div>
+              </div>
+            )}
 
-                <div>
-                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Background Color</label>
-                  <div className="flex items-center gap-3">
-                    <input 
-                      type="color" 
-                      value={state.template.boxStyle.backgroundColor}
-                      onChange={(e) => updateBoxStyle({ backgroundColor: e.target.value })}
-                      className="h-8 w-14 bg-transparent rounded cursor-pointer"
-                    />
-                    <span className="text-sm text-zinc-300 uppercase font-mono">{state.template.boxStyle.backgroundColor}</span>
+            {styleTab !== 'template' && styleLocked && (
+              <div className="mb-4 flex items-start gap-2 text-xs text-amber-400">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                <div className="space-y-1">
+                  <p>This beat uses the "{activeTemplate.name}" template. These controls edit the scene template ("{state.template.name}"), which it doesn't show.</p>
+                  <button onClick={() => updateBeat({ templateId: null })} className="text-zinc-300 hover:text-white underline">
+                    Use the scene template on this beat
+                  </button>
+                </div>
+              </div>
+            )}
+            <fieldset disabled={styleLocked} className="min-w-0 disabled:opacity-50">
+              {styleTab === 'name' && renderTextStyleControls('nameStyle', 'Character Name')}
+
+              {styleTab === 'plate' && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Placement</label>
+                    <select 
+                      value={state.template.namePlate.anchor}
+                      onChange={(e) => updateNamePlate({ anchor: e.target.value as NamePlateStyle['anchor'] })}
+                      className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                    >
+                      <option value="inline">Inline (first line of the textbox)</option>
+                      {NAME_PLATE_ANCHORS.map(group => (
+                        <optgroup key={group.label} label={group.label}>
+                          {group.options.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
                   </div>
+
+                  {state.template.namePlate.anchor === 'inline' ? (
+                    <p className="text-xs text-zinc-500">The name is set above the dialogue without a plate. Pick a placement to give it its own box.</p>
+                  ) : (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Plate Type</label>
+                        <select 
+                          value={state.template.namePlate.type}
+                          onChange={(e) => updateNamePlate({ type: e.target.value as NamePlateStyle['type'] })}
+                          className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                        >
+                          <option value="solid">Solid Plate</option>
+                          <option value="image">Image Frame (Nine-slice)</option>
+                          <option value="none">None (name only)</option>
+                        </select>
+                      </div>
+
+                      {state.template.namePlate.type === 'image' && (
+                        <div className="pb-4 border-b border-zinc-800">
+                          {renderFrameControls('namePlate', 'Name Plate Frame')}
+                        </div>
+                      )}
+
+                      {state.template.namePlate.type === 'solid' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Background</label>
+                            <input 
+                              type="color" 
+                              value={state.template.namePlate.backgroundColor}
+                              onChange={(e) => updateNamePlate({ backgroundColor: e.target.value })}
+                              className="h-8 w-14 bg-transparent rounded cursor-pointer"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Border</label>
+                            <input 
+                              type="color" 
+                              value={state.template.namePlate.borderColor}
+                              onChange={(e) => updateNamePlate({ borderColor: e.target.value })}
+                              className="h-8 w-14 bg-transparent rounded cursor-pointer"
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {([
+                        { field: 'opacity', label: 'Opacity', min: 0, max: 100, unit: '%', show: state.template.namePlate.type !== 'none' },
+                        { field: 'borderWidth', label: 'Border Width', min: 0, max: 8, unit: 'px', show: state.template.namePlate.type === 'solid' },
+                        { field: 'borderRadius', label: 'Corner Radius', min: 0, max: 32, unit: 'px', show: state.template.namePlate.type === 'solid' },
+                        { field: 'paddingX', label: 'Horizontal Padding', min: 0, max: 64, unit: 'px', show: true },
+                        { field: 'paddingY', label: 'Vertical Padding', min: 0, max: 32, unit: 'px', show: true },
+                        { field: 'minWidth', label: 'Minimum Width', min: 0, max: 400, unit: 'px', show: true },
+                        { field: 'offsetX', label: 'Offset X', min: -200, max: 200, unit: 'px', show: true },
+                        { field: 'offsetY', label: 'Offset Y', min: -200, max: 200, unit: 'px', show: true },
+                      ] as const).filter(control => control.show).map(({ field, label, min, max, unit }) => (
+                        <div key={field}>
+                          <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}: {state.template.namePlate[field]}{unit}</label>
+                          <input 
+                            type="range" 
+                            min={min} max={max} 
+                            value={state.template.namePlate[field]}
+                            onChange={(e) => updateNamePlate({ [field]: parseInt(e.target.value) })}
+                            className="w-full accent-indigo-500"
+                          />
+                        </div>
+                      ))}
+
+                      <div className="flex items-center justify-between">
+                        <label className="text-sm font-medium text-zinc-300">Hide When No Speaker</label>
+                        <button 
+                          onClick={() => updateNamePlate({ hideWhenEmpty: !state.template.namePlate.hideWhenEmpty })}
+                          className={`w-10 h-5 rounded-full relative transition-colors ${state.template.namePlate.hideWhenEmpty ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                        >
+                          <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${state.template.namePlate.hideWhenEmpty ? 'translate-x-5' : 'translate-x-0'}`} />
+                        </button>
+                      </div>
+                    </>
+                  )}
                 </div>
+              )}
+              {styleTab === 'dialogue' && renderTextStyleControls('dialogueStyle', 'Primary Dialogue')}
+              {styleTab === 'secondary' && renderTextStyleControls('secondaryDialogueStyle', 'Secondary Dialogue')}
 
-                <div>
-                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Opacity: {state.template.boxStyle.opacity}%</label>
-                  <input 
-                    type="range" 
-                    min="0" max="100" 
-                    value={state.template.boxStyle.opacity}
-                    onChange={(e) => updateBoxStyle({ opacity: parseInt(e.target.value) })}
-                    className="w-full accent-indigo-500"
-                  />
+              {styleTab === 'choice' && (
+                <div className="space-y-6">
+                  {renderTextStyleControls('choiceTextStyle', 'Choice Text')}
+
+                  <div className="pt-4 border-t border-zinc-800 space-y-4">
+                    {([
+                      ['buttonColor', 'Button Color'],
+                      ['hoverColor', 'Hover Color'],
+                      ['chosenColor', 'Chosen Color'],
+                      ['borderColor', 'Border Color'],
+                    ] as const).map(([field, label]) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}</label>
+                        <div className="flex items-center gap-3">
+                          <input 
+                            type="color" 
+                            value={state.template.choiceStyle[field]}
+                            onChange={(e) => updateChoiceStyle({ [field]: e.target.value })}
+                            className="h-8 w-14 bg-transparent rounded cursor-pointer"
+                          />
+                          <span className="text-sm text-zinc-300 uppercase font-mono">{state.template.choiceStyle[field]}</span>
+                        </div>
+                      </div>
+                    ))}
+
+                    {([
+                      ['buttonOpacity', 'Button Opacity', 0, 100, '%'],
+                      ['disabledOpacity', 'Disabled Opacity', 0, 100, '%'],
+                      ['borderWidth', 'Border Width', 0, 8, 'px'],
+                      ['borderRadius', 'Corner Radius', 0, 40, 'px'],
+                      ['width', 'Button Width', 20, 100, '%'],
+                      ['spacing', 'Spacing', 0, 60, 'px'],
+                      ['verticalPosition', 'Vertical Position', 10, 90, '%'],
+                    ] as const).map(([field, label, min, max, unit]) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}: {state.template.choiceStyle[field]}{unit}</label>
+                        <input 
+                          type="range" 
+                          min={min} max={max} 
+                          value={state.template.choiceStyle[field]}
+                          onChange={(e) => updateChoiceStyle({ [field]: parseInt(e.target.value) })}
+                          className="w-full accent-indigo-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
                 </div>
+              )}
 
-                <div>
-                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Alignment</label>
-                  <div className="flex bg-zinc-900 rounded p-1 border border-zinc-800">
-                    {['left', 'center', 'right'].map(align => (
+              {styleTab === 'hud' && (
+                <div className="space-y-6">
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-zinc-300">Show Quick Menu</label>
                       <button 
-                        key={align}
-                        className={`flex-1 text-sm py-1.5 rounded capitalize ${state.template.boxStyle.textAlign === align ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
-                        onClick={() => updateBoxStyle({ textAlign: align as any })}
+                        onClick={() => updateHud({ quickMenu: !state.template.hud.quickMenu })}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${state.template.hud.quickMenu ? 'bg-indigo-500' : 'bg-zinc-700'}`}
                       >
-                        {align}
+                        <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${state.template.hud.quickMenu ? 'translate-x-5' : 'translate-x-0'}`} />
                       </button>
+                    </div>
+
+                    {([
+                      ['buttons', 'Buttons'],
+                      ['activeButtons', 'Lit (Active) Buttons'],
+                    ] as const).map(([field, label]) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}</label>
+                        <div className="flex flex-wrap gap-1">
+                          {(Object.keys(QUICK_MENU_BUTTONS) as QuickMenuButton[]).map(button => (
+                            <button
+                              key={button}
+                              onClick={() => toggleHudButton(field, button)}
+                              className={`px-2 py-1 text-xs rounded border transition-colors ${state.template.hud[field].includes(button) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:bg-zinc-800'}`}
+                            >
+                              {QUICK_MENU_BUTTONS[button].label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Display</label>
+                      <div className="flex bg-zinc-900 rounded p-1 border border-zinc-800">
+                        {([['text', 'Text'], ['icon', 'Icons']] as const).map(([display, label]) => (
+                          <button 
+                            key={display}
+                            className={`flex-1 text-sm py-1.5 rounded ${state.template.hud.display === display ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                            onClick={() => updateHud({ display })}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Position</label>
+                      <select 
+                        value={state.template.hud.position}
+                        onChange={(e) => updateHud({ position: e.target.value as HudStyle['position'] })}
+                        className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                      >
+                        <option value="bottom-center">Bottom Center</option>
+                        <option value="bottom-left">Bottom Left</option>
+                        <option value="bottom-right">Bottom Right</option>
+                        <option value="top-center">Top Center</option>
+                        <option value="top-left">Top Left</option>
+                        <option value="top-right">Top Right</option>
+                      </select>
+                    </div>
+
+                    {([
+                      ['spacing', 'Button Spacing', 0, 60, 'px'],
+                      ['margin', 'Edge Margin', 0, 64, 'px'],
+                      ['idleOpacity', 'Unlit Opacity', 0, 100, '%'],
+                    ] as const).map(([field, label, min, max, unit]) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}: {state.template.hud[field]}{unit}</label>
+                        <input 
+                          type="range" 
+                          min={min} max={max} 
+                          value={state.template.hud[field]}
+                          onChange={(e) => updateHud({ [field]: parseInt(e.target.value) })}
+                          className="w-full accent-indigo-500"
+                        />
+                      </div>
                     ))}
+
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Lit Color</label>
+                      <div className="flex items-center gap-3">
+                        <input 
+                          type="color" 
+                          value={state.template.hud.activeColor}
+                          onChange={(e) => updateHud({ activeColor: e.target.value })}
+                          className="h-8 w-14 bg-transparent rounded cursor-pointer"
+                        />
+                        <span className="text-sm text-zinc-300 uppercase font-mono">{state.template.hud.activeColor}</span>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-zinc-300">Auto / Skip Badge</label>
+                      <button 
+                        onClick={() => updateHud({ modeBadge: !state.template.hud.modeBadge })}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${state.template.hud.modeBadge ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                      >
+                        <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${state.template.hud.modeBadge ? 'translate-x-5' : 'translate-x-0'}`} />
+                      </button>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-zinc-300" title="Stills and the editor show the continue arrow as if the line had finished">Continue Indicator in Stills</label>
+                      <button 
+                        onClick={() => updateHud({ stillIndicator: !state.template.hud.stillIndicator })}
+                        className={`w-10 h-5 rounded-full relative transition-colors ${state.template.hud.stillIndicator ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                      >
+                        <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${state.template.hud.stillIndicator ? 'translate-x-5' : 'translate-x-0'}`} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="pt-4 border-t border-zinc-800">
+                    {renderTextStyleControls('hud', 'HUD Text')}
                   </div>
                 </div>
+              )}
 
-                <div>
-                  <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Vertical Padding: {state.template.boxStyle.padding}%</label>
-                  <input 
-                    type="range" 
-                    min="0" max="50" 
-                    value={state.template.boxStyle.padding}
-                    onChange={(e) => updateBoxStyle({ padding: parseInt(e.target.value) })}
-                    className="w-full accent-indigo-500"
-                  />
+              {styleTab === 'backlog' && (
+                <div className="space-y-4">
+                  <p className="text-xs text-zinc-500">Entries use the Name and Dialogue text styles. Turn on Backlog Screen for a beat in the Script panel to preview it.</p>
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Entry Layout</label>
+                    <div className="flex bg-zinc-900 rounded p-1 border border-zinc-800">
+                      {([['stacked', 'Name Above Line'], ['columns', 'Name Column']] as const).map(([entryLayout, label]) => (
+                        <button 
+                          key={entryLayout}
+                          className={`flex-1 text-sm py-1.5 rounded ${state.template.backlogStyle.entryLayout === entryLayout ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                          onClick={() => updateBacklogStyle({ entryLayout })}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {([
+                    ['backgroundColor', 'Panel Color'],
+                    ['borderColor', 'Border Color'],
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}</label>
+                      <div className="flex items-center gap-3">
+                        <input 
+                          type="color" 
+                          value={state.template.backlogStyle[field]}
+                          onChange={(e) => updateBacklogStyle({ [field]: e.target.value })}
+                          className="h-8 w-14 bg-transparent rounded cursor-pointer"
+                        />
+                        <span className="text-sm text-zinc-300 uppercase font-mono">{state.template.backlogStyle[field]}</span>
+                      </div>
+                    </div>
+                  ))}
+
+                  {([
+                    ['dim', 'Dim Scene', 0, 100, '%'],
+                    ['opacity', 'Panel Opacity', 0, 100, '%'],
+                    ['borderWidth', 'Border Width', 0, 8, 'px'],
+                    ['borderRadius', 'Corner Radius', 0, 40, 'px'],
+                    ['width', 'Panel Width', 30, 100, '%'],
+                    ['height', 'Panel Height', 30, 100, '%'],
+                    ['padding', 'Padding', 0, 80, 'px'],
+                    ['entrySpacing', 'Entry Spacing', 0, 60, 'px'],
+                    ...(state.template.backlogStyle.entryLayout === 'columns' ? [['nameColumnWidth', 'Name Column', 10, 50, '%'] as const] : []),
+                  ] as const).map(([field, label, min, max, unit]) => (
+                    <div key={field}>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}: {state.template.backlogStyle[field]}{unit}</label>
+                      <input 
+                        type="range" 
+                        min={min} max={max} 
+                        value={state.template.backlogStyle[field]}
+                        onChange={(e) => updateBacklogStyle({ [field]: parseInt(e.target.value) })}
+                        className="w-full accent-indigo-500"
+                      />
+                    </div>
+                  ))}
+
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-zinc-300">Scrollbar</label>
+                    <button 
+                      onClick={() => updateBacklogStyle({ scrollbar: !state.template.backlogStyle.scrollbar })}
+                      className={`w-10 h-5 rounded-full relative transition-colors ${state.template.backlogStyle.scrollbar ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                    >
+                      <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${state.template.backlogStyle.scrollbar ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {styleTab === 'languages' && (
+                <div className="space-y-4">
+                  <p className="text-xs text-zinc-500">Adjusts dialogue, secondary and choice text written in each language, on top of their styles.</p>
+                  {state.languages.map(language => {
+                    const languageStyle = state.template.languageStyles[language.code] ?? DEFAULT_LANGUAGE_STYLE;
+                    return (
+                      <div key={language.code} className="p-3 bg-zinc-900 border border-zinc-800 rounded space-y-3">
+                        <div className="text-sm font-medium text-zinc-200">{language.name} <span className="font-mono text-xs text-zinc-500">{language.code}</span></div>
+                        <div>
+                          <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Font Family</label>
+                          <select 
+                            value={languageStyle.fontFamily ?? ''}
+                            onChange={(e) => updateLanguageStyle(language.code, { fontFamily: e.target.value || null })}
+                            className="w-full bg-zinc-950 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                          >
+                            <option value="">Template fonts</option>
+                            {FONTS.map(f => (
+                              <option key={f.value} value={f.value}>{f.label}</option>
+                            ))}
+                            {state.fonts.map(f => (
+                              <option key={f.family} value={f.family}>{f.family} (Custom)</option>
+                            ))}
+                            {languageStyle.fontFamily && isFontMissing(languageStyle.fontFamily) && !state.fonts.some(f => f.family === languageStyle.fontFamily) && (
+                              <option value={languageStyle.fontFamily}>{languageStyle.fontFamily} (Missing)</option>
+                            )}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Font Size: {languageStyle.fontScale}%</label>
+                          <input 
+                            type="range" 
+                            min="50" max="150" 
+                            value={languageStyle.fontScale}
+                            onChange={(e) => updateLanguageStyle(language.code, { fontScale: parseInt(e.target.value) })}
+                            className="w-full accent-indigo-500"
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <label className="text-sm font-medium text-zinc-300">Never Italic</label>
+                          <button 
+                            onClick={() => updateLanguageStyle(language.code, { upright: !languageStyle.upright })}
+                            className={`w-10 h-5 rounded-full relative transition-colors ${languageStyle.upright ? 'bg-indigo-500' : 'bg-zinc-700'}`}
+                          >
+                            <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${languageStyle.upright ? 'translate-x-5' : 'translate-x-0'}`} />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {styleTab === 'box' && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Box Type</label>
+                    <select 
+                      value={state.template.boxStyle.type}
+                      onChange={(e) => updateBoxStyle({ type: e.target.value as any })}
+                      className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                    >
+                      <option value="gradient">Gradient (Cinematic)</option>
+                      <option value="solid">Solid Box</option>
+                      <option value="fantasy">Fantasy Border</option>
+                      <option value="romance">Romance Border</option>
+                      <option value="image">Image Frame (Nine-slice)</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Layout</label>
+                    <select 
+                      value={state.template.boxStyle.layout}
+                      onChange={(e) => updateBoxStyle({ layout: e.target.value as BoxStyle['layout'] })}
+                      className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                    >
+                      <option value="adv-bottom">ADV (Bottom)</option>
+                      <option value="adv-top">ADV (Top)</option>
+                      <option value="centered">Centered</option>
+                      <option value="nvl">NVL (Full Screen)</option>
+                    </select>
+                  </div>
+
+                  {state.template.boxStyle.type === 'image' && (
+                    <div className="space-y-4 pb-4 border-b border-zinc-800">
+                      {renderFrameControls('box', 'Textbox Frame')}
+                    </div>
+                  )}
+
+                  {state.template.boxStyle.type !== 'image' && (
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Background Color</label>
+                      <div className="flex items-center gap-3">
+                        <input 
+                          type="color" 
+                          value={state.template.boxStyle.backgroundColor}
+                          onChange={(e) => updateBoxStyle({ backgroundColor: e.target.value })}
+                          className="h-8 w-14 bg-transparent rounded cursor-pointer"
+                        />
+                        <span className="text-sm text-zinc-300 uppercase font-mono">{state.template.boxStyle.backgroundColor}</span>
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Opacity: {state.template.boxStyle.opacity}%</label>
+                    <input 
+                      type="range" 
+                      min="0" max="100" 
+                      value={state.template.boxStyle.opacity}
+                      onChange={(e) => updateBoxStyle({ opacity: parseInt(e.target.value) })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Alignment</label>
+                    <div className="flex bg-zinc-900 rounded p-1 border border-zinc-800">
+                      {['left', 'center', 'right'].map(align => (
+                        <button 
+                          key={align}
+                          className={`flex-1 text-sm py-1.5 rounded capitalize ${state.template.boxStyle.textAlign === align ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                          onClick={() => updateBoxStyle({ textAlign: align as any })}
+                        >
+                          {align}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {(state.template.boxStyle.layout === 'adv-bottom' || state.template.boxStyle.layout === 'adv-top') && (
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Vertical Padding: {state.template.boxStyle.padding}%</label>
+                      <input 
+                        type="range" 
+                        min="0" max="50" 
+                        value={state.template.boxStyle.padding}
+                        onChange={(e) => updateBoxStyle({ padding: parseInt(e.target.value) })}
+                        className="w-full accent-indigo-500"
+                      />
+                    </div>
+                  )}
+
+                  {state.template.boxStyle.layout === 'nvl' && (
+                    <div className="pt-4 border-t border-zinc-800 space-y-4">
+                      <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">NVL Page</label>
+                      {([
+                        { field: 'nvlMargin', label: 'Page Margin', min: 0, max: 20, unit: '%' },
+                        { field: 'nvlSpacing', label: 'Line Spacing', min: 0, max: 64, unit: 'px' },
+                        { field: 'nvlFade', label: 'Fade Earlier Lines', min: 0, max: 60, unit: '%' },
+                      ] as const).map(({ field, label, min, max, unit }) => (
+                        <div key={field}>
+                          <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">{label}: {state.template.boxStyle[field]}{unit}</label>
+                          <input 
+                            type="range" 
+                            min={min} max={max} 
+                            value={state.template.boxStyle[field]}
+                            onChange={(e) => updateBoxStyle({ [field]: parseInt(e.target.value) })}
+                            className="w-full accent-indigo-500"
+                          />
+                        </div>
+                      ))}
+                      <p className="text-[10px] text-zinc-500">Earlier lines stay on the page until a beat starts a new one, or until they no longer fit.</p>
+                    </div>
+                  )}
+
+                  <div className="pt-4 border-t border-zinc-800 space-y-4">
+                    <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Text Limits</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-[10px] text-zinc-500 mb-1">Max dialogue lines</label>
+                        <input 
+                          type="number" 
+                          min="0"
+                          value={state.template.textLimits.maxDialogueLines}
+                          onChange={(e) => updateTextLimits({ maxDialogueLines: Math.max(parseInt(e.target.value) || 0, 0) })}
+                          className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] text-zinc-500 mb-1">Max secondary lines</label>
+                        <input 
+                          type="number" 
+                          min="0"
+                          value={state.template.textLimits.maxSecondaryLines}
+                          onChange={(e) => updateTextLimits({ maxSecondaryLines: Math.max(parseInt(e.target.value) || 0, 0) })}
+                          className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-500"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Max Text Width: {state.template.textLimits.maxWidth}%</label>
+                      <input 
+                        type="range" 
+                        min="10" max="100" 
+                        value={state.template.textLimits.maxWidth}
+                        onChange={(e) => updateTextLimits({ maxWidth: parseInt(e.target.value) })}
+                        className="w-full accent-indigo-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">
+                        Max Box Height: {state.template.textLimits.maxBoxHeight ? `${state.template.textLimits.maxBoxHeight}%` : 'Off'}
+                      </label>
+                      <input 
+                        type="range" 
+                        min="0" max="100" 
+                        value={state.template.textLimits.maxBoxHeight}
+                        onChange={(e) => updateTextLimits({ maxBoxHeight: parseInt(e.target.value) })}
+                        className="w-full accent-indigo-500"
+                      />
+                    </div>
+                    <p className="text-[10px] text-zinc-500">Lines over these limits are flagged in the preview and the Script panel. 0 lines turns a line limit off.</p>
+                  </div>
                 </div>
+              )}
+            </fieldset>
+          </div>
+        </Accordion>
+
+        <Accordion title="Playback" icon={Film}>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Text Speed: {state.typewriter.charsPerSecond} chars/sec</label>
+              <input 
+                type="range" 
+                min="5" max="120" 
+                value={state.typewriter.charsPerSecond}
+                onChange={(e) => updateState({ typewriter: { ...state.typewriter, charsPerSecond: parseInt(e.target.value) } })}
+                className="w-full accent-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Sentence Pause (. ! ?): {state.typewriter.sentencePause}ms</label>
+              <input 
+                type="range" 
+                min="0" max="1500" step="50"
+                value={state.typewriter.sentencePause}
+                onChange={(e) => updateState({ typewriter: { ...state.typewriter, sentencePause: parseInt(e.target.value) } })}
+                className="w-full accent-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">Clause Pause (, ; :): {state.typewriter.clausePause}ms</label>
+              <input 
+                type="range" 
+                min="0" max="1000" step="10"
+                value={state.typewriter.clausePause}
+                onChange={(e) => updateState({ typewriter: { ...state.typewriter, clausePause: parseInt(e.target.value) } })}
+                className="w-full accent-indigo-500"
+              />
+            </div>
+            <div className="text-xs text-zinc-500">
+              Current line: {(lineTiming.duration / 1000).toFixed(1)}s
+            </div>
+
+            <div className="pt-4 border-t border-zinc-800 space-y-2">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Animated Export (Current Beat)</label>
+              <div className="flex gap-2">
+                <button 
+                  onClick={() => handleExportAnimation('gif')}
+                  disabled={animationProgress !== null}
+                  className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm rounded border border-zinc-700 transition-colors"
+                >
+                  GIF
+                </button>
+                <button 
+                  onClick={() => handleExportAnimation('webm')}
+                  disabled={animationProgress !== null}
+                  className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm rounded border border-zinc-700 transition-colors"
+                >
+                  WebM
+                </button>
+              </div>
+              {state.exportSize.width > GIF_MAX_WIDTH && (
+                <p className="text-xs text-zinc-500">GIFs are scaled down to {GIF_MAX_WIDTH}px wide; WebM uses the full export size.</p>
+              )}
+              {animationProgress && <div className="text-xs text-indigo-300">{animationProgress}</div>}
+            </div>
+          </div>
+        </Accordion>
+
+        <Accordion title="Library" icon={LibraryBig}>
+          <div className="space-y-3">
+            <button 
+              onClick={handleNewProject}
+              className="w-full py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={16} />
+              New Project
+            </button>
+            {libraryError && (
+              <div className="flex items-start gap-2 text-xs text-amber-400">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                {libraryError}
               </div>
             )}
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {library.map(project => (
+                <div 
+                  key={project.id}
+                  onClick={() => handleOpenProject(project)}
+                  className={`flex items-center gap-3 p-2 rounded border cursor-pointer transition-colors ${
+                    project.id === currentProject?.id ? 'bg-indigo-500/20 border-indigo-500/50' : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
+                  }`}
+                >
+                  <div className="w-20 aspect-video shrink-0 rounded overflow-hidden bg-black">
+                    {project.thumbnail && <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <input 
+                      key={project.name}
+                      type="text" 
+                      defaultValue={project.name}
+                      onClick={(e) => e.stopPropagation()}
+                      onBlur={(e) => handleRenameProject(project, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="w-full bg-transparent border border-transparent hover:border-zinc-700 focus:border-indigo-500 rounded px-1 py-0.5 text-sm text-zinc-200 focus:outline-none"
+                    />
+                    <div className="px-1 text-xs text-zinc-500">{new Date(project.updatedAt).toLocaleString()}</div>
+                  </div>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); handleDuplicateProject(project); }}
+                    className="p-1.5 text-zinc-500 hover:text-zinc-200 transition-colors"
+                    title="Duplicate"
+                  >
+                    <Copy size={14} />
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); handleDeleteProject(project); }}
+                    className="p-1.5 text-zinc-500 hover:text-red-400 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </Accordion>
+
+        <Accordion title="History" icon={HistoryIcon}>
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <button 
+                onClick={undo}
+                disabled={!canUndo}
+                className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 size={16} />
+                Undo
+              </button>
+              <button 
+                onClick={redo}
+                disabled={!canRedo}
+                className="flex-1 py-2 px-4 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 size={16} />
+                Redo
+              </button>
+            </div>
+            {/* Newest first; entries past the current one can still be redone */}
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {historyEntries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+                <button
+                  key={`${i}-${entry.time}`}
+                  onClick={() => jumpTo(i)}
+                  className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded text-left text-sm transition-colors ${
+                    i === historyIndex
+                      ? 'bg-indigo-500/20 text-indigo-200 border border-indigo-500/50'
+                      : `border border-transparent hover:bg-zinc-800 ${i > historyIndex ? 'text-zinc-600' : 'text-zinc-300'}`
+                  }`}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="text-xs text-zinc-500 font-mono shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+                </button>
+              ))}
+            </div>
           </div>
         </Accordion>
 
@@ -703,18 +4163,139 @@ export default function App() {
               Load Project (JSON)
             </button>
 
+            <div className="pt-4 mt-4 border-t border-zinc-800 space-y-3">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Export Size</label>
+              <select 
+                value={aspectRatio?.label ?? 'custom'}
+                onChange={(e) => {
+                  const ratio = ASPECT_RATIOS.find(r => r.label === e.target.value);
+                  const preset = ratio && EXPORT_RESOLUTIONS.find(r => aspectRatioOf(r) === ratio);
+                  if (preset) updateState({ exportSize: { width: preset.width, height: preset.height } });
+                }}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+              >
+                {ASPECT_RATIOS.map(r => (
+                  <option key={r.label} value={r.label}>{r.label}</option>
+                ))}
+                <option value="custom">Custom Ratio</option>
+              </select>
+              <select 
+                value={EXPORT_RESOLUTIONS.find(r => r.width === state.exportSize.width && r.height === state.exportSize.height)?.label ?? 'custom'}
+                onChange={(e) => {
+                  const preset = EXPORT_RESOLUTIONS.find(r => r.label === e.target.value);
+                  if (preset) updateState({ exportSize: { width: preset.width, height: preset.height } });
+                }}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+              >
+                {EXPORT_RESOLUTIONS.filter(r => !aspectRatio || aspectRatioOf(r) === aspectRatio).map(r => (
+                  <option key={r.label} value={r.label}>{r.label}</option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              <div className="flex items-center gap-2">
+                <input 
+                  type="number" 
+                  min="320"
+                  value={state.exportSize.width}
+                  onChange={(e) => updateState({ exportSize: { ...state.exportSize, width: Math.max(parseInt(e.target.value) || 0, 1) } })}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                />
+                <span className="text-zinc-500 text-sm">×</span>
+                <input 
+                  type="number" 
+                  min="240"
+                  value={state.exportSize.height}
+                  onChange={(e) => updateState({ exportSize: { ...state.exportSize, height: Math.max(parseInt(e.target.value) || 0, 1) } })}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                />
+              </div>
+            </div>
+
+            <div className="pt-4 border-t border-zinc-800 space-y-3">
+              <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">Text Overflow Report</label>
+              <div className="flex gap-2">
+                <select 
+                  value={reportResolution}
+                  onChange={(e) => setReportResolution(e.target.value)}
+                  className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="project">Export size ({state.exportSize.width} × {state.exportSize.height})</option>
+                  {EXPORT_RESOLUTIONS.map(r => (
+                    <option key={r.label} value={r.label}>{r.label}</option>
+                  ))}
+                </select>
+                <button 
+                  onClick={handleScanOverflow}
+                  className="py-2 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors"
+                >
+                  Scan
+                </button>
+              </div>
+              {overflowReport && (
+                <div className="p-3 bg-zinc-900 border border-zinc-800 rounded text-xs space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-zinc-300">
+                      {overflowReport.overflows.length === 0
+                        ? `No overflow at ${overflowReport.size.width} × ${overflowReport.size.height}`
+                        : `${overflowReport.overflows.length} problem${overflowReport.overflows.length === 1 ? '' : 's'} at ${overflowReport.size.width} × ${overflowReport.size.height}`}
+                    </span>
+                    <button onClick={() => setOverflowReport(null)} className="text-zinc-500 hover:text-zinc-300">
+                      <X size={14} />
+                    </button>
+                  </div>
+                  {overflowReport.overflows.length > 0 && (
+                    <div className="space-y-1 max-h-60 overflow-y-auto">
+                      {overflowReport.overflows.map(o => (
+                        <button
+                          key={`${o.beatIndex}-${o.message}`}
+                          onClick={() => goToBeat(o.beatIndex)}
+                          className="w-full flex gap-2 text-left text-amber-400 hover:bg-zinc-800 rounded px-1 py-0.5"
+                        >
+                          <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                          <div className="min-w-0">
+                            <span className="font-mono">Beat {o.beatIndex + 1}:</span> {o.message}
+                            {o.field !== 'textbox' && <div className="text-zinc-500 truncate">{plainText(trackText(state.beats[o.beatIndex]?.text ?? {}, o.language))}</div>}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
             <div className="pt-4 mt-4 border-t border-zinc-800">
               <button 
                 onClick={handleExportImage}
                 className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-500 text-white font-medium text-sm rounded transition-colors flex items-center justify-center gap-2 shadow-lg shadow-indigo-900/20"
               >
                 <Download size={18} />
-                Export Image (PNG)
+                Export Current Beat (PNG)
+              </button>
+              <button 
+                onClick={handleExportSequence}
+                className="w-full mt-2 py-2.5 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <Images size={16} />
+                Export All Beats (PNG)
+              </button>
+              <button 
+                onClick={handleExportPerLanguage}
+                className="w-full mt-2 py-2.5 px-4 bg-zinc-800 hover:bg-zinc-700 text-sm rounded border border-zinc-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <Languages size={16} />
+                Export All Beats per Language (ZIP)
               </button>
             </div>
           </div>
         </Accordion>
       </div>
+
+      {libraryLoading && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-zinc-950/80 text-sm text-zinc-400">
+          Opening project library...
+        </div>
+      )}
     </div>
   );
 }
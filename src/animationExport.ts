@@ -0,0 +1,112 @@
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { ExportSize } from './types';
+import { canvasToBlob } from './sceneRenderer';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+// Frames are handed over as they're rendered, so only the newest one is held at a time;
+// it stays open for extendFrame until the next one arrives, as identical frames are merged
+export interface AnimationWriter {
+  addFrame(canvas: HTMLCanvasElement, delay: number): Promise<void>;
+  extendFrame(delay: number): void;
+  finish(): Promise<Blob>;
+}
+
+interface AnimationFrame {
+  canvas: HTMLCanvasElement;
+  // How long the frame stays on screen, in ms
+  delay: number;
+}
+
+// GIFs quantize every full frame, which gets slow and large fast, so they're drawn no wider than this
+export const GIF_MAX_WIDTH = 960;
+
+export function animationSize(format: AnimationFormat, size: ExportSize): ExportSize {
+  if (format !== 'gif' || size.width <= GIF_MAX_WIDTH) return size;
+  return { width: GIF_MAX_WIDTH, height: Math.round(size.height * GIF_MAX_WIDTH / size.width) };
+}
+
+function holdingLastFrame(write: (frame: AnimationFrame) => Promise<void>, close: () => Promise<Blob>): AnimationWriter {
+  let pending: AnimationFrame | null = null;
+  return {
+    async addFrame(canvas, delay) {
+      if (pending) await write(pending);
+      pending = { canvas, delay };
+    },
+    extendFrame(delay) {
+      if (pending) pending.delay += delay;
+    },
+    async finish() {
+      if (pending) await write(pending);
+      pending = null;
+      return close();
+    },
+  };
+}
+
+export function createGifWriter(): AnimationWriter {
+  const gif = GIFEncoder();
+  return holdingLastFrame(async frame => {
+    const { width, height } = frame.canvas;
+    const { data } = frame.canvas.getContext('2d')!.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: frame.delay });
+  }, async () => {
+    gif.finish();
+    return new Blob([gif.bytes()], { type: 'image/gif' });
+  });
+}
+
+function pickWebmMimeType() {
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// MediaRecorder records in real time, so frames are kept as PNGs while rendering and replayed
+// onto a canvas at their actual delays while it listens, decoding each one ahead of time.
+export function createWebmWriter(): AnimationWriter {
+  const mimeType = typeof MediaRecorder !== 'undefined' ? pickWebmMimeType() : undefined;
+  if (!mimeType) {
+    throw new Error('WebM recording is not supported in this browser.');
+  }
+  const frames: { png: Blob, delay: number }[] = [];
+  let size: ExportSize | null = null;
+
+  return holdingLastFrame(async frame => {
+    size ??= { width: frame.canvas.width, height: frame.canvas.height };
+    frames.push({ png: await canvasToBlob(frame.canvas), delay: frame.delay });
+  }, async () => {
+    if (!size || frames.length === 0) throw new Error('The animation has no frames.');
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d')!;
+    let next = createImageBitmap(frames[0].png);
+    const first = await next;
+    ctx.drawImage(first, 0, 0);
+
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    recorder.start();
+    for (let i = 0; i < frames.length; i++) {
+      const bitmap = await next;
+      if (i + 1 < frames.length) next = createImageBitmap(frames[i + 1].png);
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      track.requestFrame();
+      await new Promise(resolve => setTimeout(resolve, frames[i].delay));
+    }
+    recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  });
+}
@@ -0,0 +1,140 @@
+import { BackgroundFilter, BackgroundFilterType, BackgroundView, SceneBeat, SceneState } from './types';
+import { hexToRgba } from './scene';
+
+// Background framing and filters shared by the preview (CSS) and the renderer (canvas).
+// Dim, blur, sepia and grayscale are CSS filter functions, which canvases accept as-is;
+// tint and vignette are overlays painted over the scene. Filters listed after an overlay
+// apply to it too, so the list is split into stages that each filter everything before them.
+
+export const DEFAULT_BACKGROUND_VIEW: BackgroundView = {
+  panX: 0,
+  panY: 0,
+  zoom: 100,
+  rotation: 0,
+  crop: { x: 0, y: 0, width: 100, height: 100 },
+  filters: [],
+};
+
+export const BACKGROUND_FILTERS: Record<BackgroundFilterType, { label: string, max: number, unit: string, defaultAmount: number, defaultColor: string }> = {
+  dim: { label: 'Dim', max: 100, unit: '%', defaultAmount: 40, defaultColor: '#000000' },
+  blur: { label: 'Blur', max: 40, unit: 'px', defaultAmount: 6, defaultColor: '#000000' },
+  sepia: { label: 'Sepia', max: 100, unit: '%', defaultAmount: 80, defaultColor: '#000000' },
+  grayscale: { label: 'Grayscale', max: 100, unit: '%', defaultAmount: 100, defaultColor: '#000000' },
+  tint: { label: 'Tint', max: 100, unit: '%', defaultAmount: 40, defaultColor: '#3b5bdb' },
+  vignette: { label: 'Vignette', max: 100, unit: '%', defaultAmount: 70, defaultColor: '#000000' },
+};
+
+// Where the vignette starts darkening, as a fraction of the distance from the center to the corners
+export const VIGNETTE_INNER_STOP = 0.4;
+
+export const MIN_CROP_SIZE = 1;
+export const ZOOM_RANGE = { min: 10, max: 500 };
+
+export interface BackgroundPlacement {
+  // Source rectangle in image pixels
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  // Drawn size and center in reference pixels
+  width: number;
+  height: number;
+  centerX: number;
+  centerY: number;
+  rotation: number;
+}
+
+export function createBackgroundFilter(type: BackgroundFilterType, id: string): BackgroundFilter {
+  const { defaultAmount, defaultColor } = BACKGROUND_FILTERS[type];
+  return { id, type, amount: defaultAmount, color: defaultColor };
+}
+
+// Nearest view at or before the beat, stopping at the beat that set the image shown
+export function resolveBeatBackground(beats: SceneBeat[], index: number): BackgroundView {
+  for (let i = index; i >= 0; i--) {
+    const view = beats[i].background;
+    if (view) return view;
+    if (beats[i].image) break;
+  }
+  return DEFAULT_BACKGROUND_VIEW;
+}
+
+// `outputScale` is output pixels per reference pixel, which original-size images are drawn at one to one
+export function backgroundPlacement(
+  imageScale: SceneState['imageScale'],
+  view: BackgroundView,
+  image: { width: number, height: number },
+  sceneWidth: number,
+  sceneHeight: number,
+  outputScale: number
+): BackgroundPlacement {
+  const { crop, zoom, panX, panY, rotation } = view;
+  const x = Math.min(Math.max(crop.x, 0), 100 - MIN_CROP_SIZE);
+  const y = Math.min(Math.max(crop.y, 0), 100 - MIN_CROP_SIZE);
+  const sw = image.width * Math.max(Math.min(crop.width, 100 - x), MIN_CROP_SIZE) / 100;
+  const sh = image.height * Math.max(Math.min(crop.height, 100 - y), MIN_CROP_SIZE) / 100;
+  const base = imageScale === 'fit' ? Math.min(sceneWidth / sw, sceneHeight / sh) : 1 / outputScale;
+  const size = base * zoom / 100;
+  return {
+    sx: image.width * x / 100,
+    sy: image.height * y / 100,
+    sw,
+    sh,
+    width: sw * size,
+    height: sh * size,
+    centerX: sceneWidth * (0.5 + panX / 100),
+    centerY: sceneHeight * (0.5 + panY / 100),
+    rotation,
+  };
+}
+
+// CSS filter chain for the image itself; `blurScale` converts reference pixels to the surface's pixels
+export function backgroundFilterCss(filters: BackgroundFilter[], blurScale = 1) {
+  const functions = filters.flatMap(filter => {
+    switch (filter.type) {
+      case 'dim': return [`brightness(${1 - filter.amount / 100})`];
+      case 'blur': return [`blur(${filter.amount * blurScale}px)`];
+      case 'sepia': return [`sepia(${filter.amount / 100})`];
+      case 'grayscale': return [`grayscale(${filter.amount / 100})`];
+      default: return [];
+    }
+  });
+  return functions.length > 0 ? functions.join(' ') : 'none';
+}
+
+export interface BackgroundFilterStage {
+  // Filter functions for what's been painted so far, then the overlays painted on top
+  css: BackgroundFilter[];
+  overlays: BackgroundFilter[];
+}
+
+export function isBackgroundOverlay(filter: BackgroundFilter) {
+  return filter.type === 'tint' || filter.type === 'vignette';
+}
+
+export function backgroundFilterStages(filters: BackgroundFilter[]) {
+  const stages: BackgroundFilterStage[] = [];
+  filters.forEach(filter => {
+    const last = stages[stages.length - 1];
+    if (isBackgroundOverlay(filter)) {
+      if (last) last.overlays.push(filter);
+      else stages.push({ css: [], overlays: [filter] });
+    } else if (last && last.overlays.length === 0) {
+      last.css.push(filter);
+    } else {
+      stages.push({ css: [filter], overlays: [] });
+    }
+  });
+  return stages;
+}
+
+// Inner and outer colors of the vignette. The inner one is the same color fully transparent, since
+// canvas gradients don't premultiply alpha and would otherwise fade through gray.
+export function vignetteColors(filter: BackgroundFilter): [string, string] {
+  return [hexToRgba(filter.color, 0), hexToRgba(filter.color, filter.amount / 100)];
+}
+
+export function vignetteCss(filter: BackgroundFilter) {
+  const [inner, outer] = vignetteColors(filter);
+  return `radial-gradient(ellipse farthest-corner at center, ${inner} ${VIGNETTE_INNER_STOP * 100}%, ${outer} 100%)`;
+}
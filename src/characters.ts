@@ -0,0 +1,65 @@
+import { LocalizedText, SceneBeat, SceneCharacter, SpriteLayer, TextStyle } from './types';
+import { generateId } from './scene';
+
+// Beats name their speaker as plain text, so scripts, exports and translation files keep working;
+// the roster adds translated names, name styling and a default sprite to the names it knows.
+
+export function createCharacter(name: string, overrides: Partial<SceneCharacter> = {}): SceneCharacter {
+  return {
+    id: generateId('char'),
+    name,
+    names: {},
+    nameColor: null,
+    nameStyle: null,
+    defaultExpression: null,
+    expressions: [],
+    ...overrides
+  };
+}
+
+export function createSprite(character: SceneCharacter, expression: string): SpriteLayer {
+  return {
+    id: generateId('sprite'),
+    characterId: character.id,
+    expression,
+    x: 50,
+    y: 0,
+    scale: 1,
+    flipped: false,
+    dimWhenSilent: true
+  };
+}
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function findCharacter(characters: SceneCharacter[], name: string) {
+  return name.trim() ? characters.find(c => sameName(c.name, name)) : undefined;
+}
+
+// `style` is the name style already resolved for the template and language shown
+export function characterNameStyle(style: TextStyle, character: SceneCharacter | undefined): TextStyle {
+  if (!character?.nameColor && !character?.nameStyle) return style;
+  return { ...style, ...(character.nameColor ? { color: character.nameColor } : {}), ...character.nameStyle };
+}
+
+// Merges translations of a speaker's name, adding speakers the roster doesn't have yet
+export function withSpeakerNames(characters: SceneCharacter[], name: string, names: LocalizedText): SceneCharacter[] {
+  const character = findCharacter(characters, name);
+  if (!character) return [...characters, createCharacter(name.trim(), { names })];
+  return characters.map(c => c === character ? { ...c, names: { ...c.names, ...names } } : c);
+}
+
+// Keeps beats and backlog entries pointing at a character whose name changed
+export function renameSpeaker(beats: SceneBeat[], from: string, to: string): SceneBeat[] {
+  if (!from.trim()) return beats;
+  return beats.map(beat => ({
+    ...beat,
+    characterName: sameName(beat.characterName, from) ? to : beat.characterName,
+    backlog: beat.backlog && {
+      ...beat.backlog,
+      entries: beat.backlog.entries.map(entry => sameName(entry.characterName, from) ? { ...entry, characterName: to } : entry)
+    }
+  }));
+}
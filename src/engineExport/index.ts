@@ -0,0 +1,13 @@
+import { renpyExporter } from './renpy';
+import { EngineExporter } from './types';
+
+export type { EngineExportOptions, EngineExportFile, EngineExporter } from './types';
+
+// Add new targets (Tyrano, Naninovel, ...) here
+export const ENGINE_EXPORTERS: EngineExporter[] = [
+  renpyExporter,
+];
+
+export function getEngineExporter(id: string) {
+  return ENGINE_EXPORTERS.find(exporter => exporter.id === id) ?? ENGINE_EXPORTERS[0];
+}
@@ -0,0 +1,333 @@
+import { BoxStyle, NamePlateStyle, NineSliceFrame, QuickMenuButton, TextStyle, UITemplate } from '../types';
+import { isGenericFont } from '../fonts';
+import { BOX_MARGIN, BOX_PADDING, CHOICE_PADDING_X, CHOICE_PADDING_Y, CONTENT_INSET, GRADIENT_TOP_PADDING, LINE_HEIGHT, PREVIEW_REFERENCE_WIDTH, TEXT_BLOCK_GAP, namePlatePadding, namePlatePlacement } from '../layout';
+import { QUICK_MENU_BUTTONS, hudPlacement } from '../hud';
+import { EngineExporter, EngineExportFile, EngineExportOptions, dataUrlToBlob } from './types';
+
+// Ren'Py only ships DejaVu Sans, so generic CSS families fall back to it.
+// Uploaded fonts are expected in game/fonts/ under their original file name.
+function fontFile(style: TextStyle, template: UITemplate) {
+  if (isGenericFont(style.fontFamily)) return 'DejaVuSans.ttf';
+  const font = template.fonts?.find(f => f.family === style.fontFamily);
+  return `fonts/${font ? font.fileName : `${style.fontFamily}.ttf`}`;
+}
+
+function fontNote(style: TextStyle, template: UITemplate) {
+  if (isGenericFont(style.fontFamily)) return `  # mockup uses generic "${style.fontFamily}", replace with your game font`;
+  if (!template.fonts?.some(f => f.family === style.fontFamily)) return `  # font file for "${style.fontFamily}" was not in the project`;
+  return '';
+}
+
+function alignValue(align: BoxStyle['textAlign']) {
+  return align === 'left' ? '0.0' : align === 'center' ? '0.5' : '1.0';
+}
+
+function colorWithAlpha(hex: string, opacity: number) {
+  const alpha = Math.round((opacity / 100) * 255).toString(16).padStart(2, '0');
+  return `"${hex}${alpha}"`;
+}
+
+function px(value: number, options: EngineExportOptions) {
+  return Math.round(value * (options.width / PREVIEW_REFERENCE_WIDTH));
+}
+
+// Mirrors the 1px outline plus 2px drop shadow of TEXT_OUTLINE_OFFSETS
+function outlines(style: TextStyle, options: EngineExportOptions) {
+  if (!style.hasOutline) return '[]';
+  return `[ (absolute(${px(1, options)}), "#000000", 0, 0), (absolute(0), "#000000", absolute(${px(2, options)}), absolute(${px(2, options)})) ]`;
+}
+
+function textStyleBlock(name: string, style: TextStyle, sizeVar: string, fontVar: string, align: BoxStyle['textAlign'], options: EngineExportOptions) {
+  return [
+    `style ${name}:`,
+    `    font ${fontVar}`,
+    `    size ${sizeVar}`,
+    `    color "${style.color}"`,
+    `    italic ${style.isItalic ? 'True' : 'False'}`,
+    `    outlines ${outlines(style, options)}`,
+    `    text_align ${alignValue(align)}`,
+  ].join('\n');
+}
+
+function frameFileName(frame: NineSliceFrame, name: string) {
+  const extension = frame.image.match(/^data:image\/(\w+)/)?.[1].replace('jpeg', 'jpg') ?? 'png';
+  return `gui/${name}.${extension}`;
+}
+
+// Ren'Py's Frame() is the engine's nine-slice: Frame(image, left, top, right, bottom)
+function frameDisplayable(frame: NineSliceFrame, name: string, opacity: number) {
+  const displayable = `Frame("${frameFileName(frame, name)}", ${frame.left}, ${frame.top}, ${frame.right}, ${frame.bottom})`;
+  const scaleNote = frame.borderScale !== 1 ? `    # Mockup draws these borders at ${Math.round(frame.borderScale * 100)}%; resize the image to match.` : null;
+  const body = opacity < 100 ? `Transform(${displayable}, alpha=${(opacity / 100).toFixed(2)})` : displayable;
+  return [scaleNote, `    background ${body}`].filter((line): line is string => line !== null);
+}
+
+function windowBackground(box: BoxStyle) {
+  const color = colorWithAlpha(box.backgroundColor, box.opacity);
+  switch (box.type) {
+    case 'image':
+      return box.frame
+        ? frameDisplayable(box.frame, 'textbox', box.opacity)
+        : [`    # No frame image was uploaded in the mockup.`, `    background Solid(${color})`];
+    case 'gradient':
+      return [
+        `    # The mockup fades this color to transparent towards the top.`,
+        `    # For an exact match, replace with Frame("gui/textbox.png") using a gradient image.`,
+        `    background Solid(${color})`,
+      ];
+    case 'fantasy':
+      return [
+        `    # Mockup frame: 4px #b8860b border, 4px radius, gold glow. Bake it into gui/textbox.png for Frame().`,
+        `    background Solid(${color})`,
+      ];
+    case 'romance':
+      return [
+        `    # Mockup frame: 2px #ffb6c1 border, 24px radius. Bake it into gui/textbox.png for Frame().`,
+        `    background Solid(${color})`,
+      ];
+    default:
+      return [
+        `    # Mockup corners are rounded by 8px.`,
+        `    background Solid(${color})`,
+      ];
+  }
+}
+
+function nameboxBackground(plate: NamePlateStyle) {
+  switch (plate.type) {
+    case 'image':
+      return plate.frame
+        ? frameDisplayable(plate.frame, 'namebox', plate.opacity)
+        : [`    # No name plate image was uploaded in the mockup.`, `    background None`];
+    case 'solid':
+      return [
+        plate.borderWidth > 0 || plate.borderRadius > 0
+          ? `    # Mockup plate has a ${plate.borderWidth}px ${plate.borderColor} border and ${plate.borderRadius}px corners; bake them into a Frame() image.`
+          : null,
+        `    background Solid(${colorWithAlpha(plate.backgroundColor, plate.opacity)})`,
+      ].filter((line): line is string => line !== null);
+    default:
+      return ['    background None'];
+  }
+}
+
+function choiceBlock(template: UITemplate, options: EngineExportOptions) {
+  const choice = template.choiceStyle;
+  const text = template.choiceTextStyle;
+  const disabledAlpha = Math.round((choice.disabledOpacity / 100) * 255).toString(16).padStart(2, '0');
+  return [
+    'style choice_vbox:',
+    '    xalign 0.5',
+    `    ypos ${Math.round(options.height * choice.verticalPosition / 100)}`,
+    '    yanchor 0.5',
+    `    spacing ${px(choice.spacing, options)}`,
+    '',
+    'style choice_button:',
+    `    xsize ${Math.round(options.width * choice.width / 100)}`,
+    `    padding (${px(CHOICE_PADDING_X, options)}, ${px(CHOICE_PADDING_Y, options)}, ${px(CHOICE_PADDING_X, options)}, ${px(CHOICE_PADDING_Y, options)})`,
+    choice.borderWidth > 0 ? `    # Mockup buttons have a ${choice.borderWidth}px ${choice.borderColor} border and ${choice.borderRadius}px corners; bake them into a Frame() image.` : null,
+    `    idle_background Solid(${colorWithAlpha(choice.buttonColor, choice.buttonOpacity)})`,
+    `    hover_background Solid(${colorWithAlpha(choice.hoverColor, choice.buttonOpacity)})`,
+    `    selected_idle_background Solid(${colorWithAlpha(choice.chosenColor, choice.buttonOpacity)})`,
+    `    insensitive_background Solid(${colorWithAlpha(choice.buttonColor, choice.buttonOpacity * choice.disabledOpacity / 100)})`,
+    '',
+    'style choice_button_text:',
+    `    font "${fontFile(text, template)}"${fontNote(text, template)}`,
+    `    size ${px(text.fontSize, options)}`,
+    `    idle_color "${text.color}"`,
+    `    hover_color "${text.color}"`,
+    `    insensitive_color "${text.color}${disabledAlpha}"`,
+    `    italic ${text.isItalic ? 'True' : 'False'}`,
+    `    outlines ${outlines(text, options)}`,
+    '    text_align 0.5',
+    '    xalign 0.5',
+    '',
+  ].filter((line): line is string => line !== null);
+}
+
+const QUICK_MENU_ACTIONS: Record<QuickMenuButton, string> = {
+  back: 'Rollback()',
+  log: "ShowMenu('history')",
+  auto: 'Preference("auto-forward", "toggle")',
+  skip: 'Skip() alternate Skip(fast=True, confirm=True)',
+  save: "ShowMenu('save')",
+  load: "ShowMenu('load')",
+  settings: "ShowMenu('preferences')",
+};
+
+// Ren'Py marks Auto and Skip as selected while they run, so the lit color goes on selected_*
+function quickMenuBlock(template: UITemplate, options: EngineExportOptions) {
+  const { hud } = template;
+  const text = hud.textStyle;
+  const { vertical, side } = hudPlacement(hud.position);
+  const margin = px(hud.margin, options);
+  return [
+    'screen quick_menu():',
+    '    zorder 100',
+    '    if quick_menu:',
+    '        hbox:',
+    '            style_prefix "quick"',
+    `            xalign ${alignValue(side)}`,
+    `            yalign ${vertical === 'top' ? '0.0' : '1.0'}`,
+    side !== 'center' ? `            xoffset ${side === 'left' ? margin : -margin}` : null,
+    `            yoffset ${vertical === 'top' ? margin : -margin}`,
+    `            spacing ${px(hud.spacing, options)}`,
+    hud.display === 'icon' ? '            # Mockup shows icons; swap these for imagebuttons with your icon art.' : null,
+    ...hud.buttons.map(button => `            textbutton _("${QUICK_MENU_BUTTONS[button].label}") action ${QUICK_MENU_ACTIONS[button]}`),
+    '',
+    'style quick_button_text:',
+    `    font "${fontFile(text, template)}"${fontNote(text, template)}`,
+    `    size ${px(text.fontSize, options)}`,
+    `    idle_color ${colorWithAlpha(text.color, hud.idleOpacity)}`,
+    `    hover_color "${hud.activeColor}"`,
+    `    selected_idle_color "${hud.activeColor}"`,
+    `    selected_hover_color "${hud.activeColor}"`,
+    `    italic ${text.isItalic ? 'True' : 'False'}`,
+    `    outlines ${outlines(text, options)}`,
+    '',
+  ].filter((line): line is string => line !== null);
+}
+
+function lineHeight(style: TextStyle, options: EngineExportOptions) {
+  return px(style.fontSize * LINE_HEIGHT, options) + px(TEXT_BLOCK_GAP, options);
+}
+
+function exportRenpy(template: UITemplate, options: EngineExportOptions) {
+  const { nameStyle, dialogueStyle, secondaryDialogueStyle, boxStyle, namePlate } = template;
+  const isGradient = boxStyle.type === 'gradient';
+  // Box geometry follows the scene layout: percentages are relative to the width
+  const sideMargin = isGradient ? 0 : px(BOX_MARGIN, options);
+  const edgeMargin = isGradient ? 0 : Math.round(options.width * boxStyle.padding / 100);
+  const innerPadding = px(BOX_PADDING, options);
+  const contentInset = px(CONTENT_INSET, options);
+  // Gradients fade on the side facing the scene; the NVL page is exported separately below
+  const gradientEdge = Math.round(options.width * boxStyle.padding / 100);
+  const gradientFade = Math.round(options.width * GRADIENT_TOP_PADDING);
+  const topPadding = !isGradient ? innerPadding : boxStyle.layout === 'adv-top' ? gradientEdge : gradientFade;
+  const bottomPadding = !isGradient ? innerPadding : boxStyle.layout === 'adv-top' || boxStyle.layout === 'centered' ? gradientFade : gradientEdge;
+  const nvlMargin = Math.round(options.width * boxStyle.nvlMargin / 100);
+  const nvlBorder = isGradient ? nvlMargin : nvlMargin + innerPadding;
+  const yalign = boxStyle.layout === 'adv-top' ? '0.0' : boxStyle.layout === 'centered' ? '0.5' : '1.0';
+  const yoffset = boxStyle.layout === 'adv-top' ? edgeMargin : boxStyle.layout === 'centered' ? 0 : -edgeMargin;
+  const hasPlate = namePlate.anchor !== 'inline';
+  const { vertical, side } = namePlatePlacement(namePlate);
+  const platePadding = namePlatePadding(namePlate);
+  const plateHeight = px(nameStyle.fontSize * LINE_HEIGHT + platePadding.top + platePadding.bottom, options);
+  // Space the name takes above the dialogue inside the window
+  const nameHeight = !hasPlate ? lineHeight(nameStyle, options) : vertical === 'inset' ? plateHeight + px(TEXT_BLOCK_GAP, options) : 0;
+  // Room for three lines of dialogue plus one secondary line
+  const textboxHeight = topPadding + nameHeight + lineHeight(dialogueStyle, options) * 3 + lineHeight(secondaryDialogueStyle, options) + bottomPadding;
+  const windowWidth = options.width - sideMargin * 2;
+  const leftInset = contentInset + (isGradient ? 0 : innerPadding);
+  const contentWidth = windowWidth - leftInset * 2;
+  const nameAlign = hasPlate ? side : boxStyle.textAlign;
+  const nameXpos = (nameAlign === 'left' ? leftInset : nameAlign === 'center' ? Math.round(windowWidth / 2) : windowWidth - leftInset)
+    + (hasPlate ? px(namePlate.offsetX, options) : 0);
+  // Plates above the window or on its edge hang from its top, anchored by their bottom or middle
+  const nameYpos = (hasPlate && vertical !== 'inset' ? 0 : topPadding) + (hasPlate ? px(namePlate.offsetY, options) : 0);
+  const header = `## Generated by Visual Novel Scene Mockup from template "${template.name}" at ${options.width}x${options.height}.`;
+
+  const gui = [
+    header,
+    '',
+    '## Fonts ####################################################################',
+    '',
+    `define gui.name_text_font = "${fontFile(nameStyle, template)}"${fontNote(nameStyle, template)}`,
+    `define gui.text_font = "${fontFile(dialogueStyle, template)}"${fontNote(dialogueStyle, template)}`,
+    `define gui.secondary_text_font = "${fontFile(secondaryDialogueStyle, template)}"${fontNote(secondaryDialogueStyle, template)}`,
+    '',
+    `define gui.name_text_size = ${px(nameStyle.fontSize, options)}`,
+    `define gui.text_size = ${px(dialogueStyle.fontSize, options)}`,
+    `define gui.secondary_text_size = ${px(secondaryDialogueStyle.fontSize, options)}`,
+    '',
+    '## Colors ###################################################################',
+    '',
+    `define gui.accent_color = "${nameStyle.color}"`,
+    `define gui.text_color = "${dialogueStyle.color}"`,
+    '',
+    '## Textbox ##################################################################',
+    '',
+    `define gui.textbox_height = ${textboxHeight}`,
+    `define gui.textbox_yalign = ${yalign}`,
+    '',
+    `define gui.name_xpos = ${nameXpos}`,
+    `define gui.name_ypos = ${nameYpos}`,
+    `define gui.name_xalign = ${alignValue(nameAlign)}`,
+    '',
+    `define gui.dialogue_xpos = ${leftInset}`,
+    `define gui.dialogue_ypos = ${topPadding + nameHeight}`,
+    `define gui.dialogue_width = ${contentWidth}`,
+    `define gui.dialogue_text_xalign = ${alignValue(boxStyle.textAlign)}`,
+    '',
+    ...(boxStyle.layout === 'nvl' ? [
+      '## NVL ######################################################################',
+      '',
+      '## The mockup uses an NVL page; speakers need kind=nvl, e.g. Character("Eileen", kind=nvl).',
+      `define gui.nvl_borders = Borders(${nvlBorder}, ${nvlBorder}, ${nvlBorder}, ${nvlBorder})`,
+      'define gui.nvl_height = None',
+      `define gui.nvl_spacing = ${px(boxStyle.nvlSpacing, options)}`,
+      boxStyle.nvlFade > 0 ? `## Mockup fades each earlier line to ${100 - boxStyle.nvlFade}% of the next one; Ren'Py draws them at full opacity.` : null,
+      '',
+    ] : []),
+  ].filter(line => line !== null).join('\n');
+
+  const screens = [
+    header,
+    '## Paste over the matching styles in screens.rpy.',
+    '',
+    'style window:',
+    '    xalign 0.5',
+    sideMargin ? `    xsize ${windowWidth}` : '    xfill True',
+    '    yalign gui.textbox_yalign',
+    '    ysize gui.textbox_height',
+    yoffset ? `    yoffset ${yoffset}` : null,
+    `    padding (0, 0, 0, 0)`,
+    ...windowBackground(boxStyle),
+    '',
+    textStyleBlock('say_label', nameStyle, 'gui.name_text_size', 'gui.name_text_font', hasPlate ? 'center' : boxStyle.textAlign, options),
+    '    xpos gui.name_xpos',
+    '    xanchor gui.name_xalign',
+    '    ypos gui.name_ypos',
+    '',
+    textStyleBlock('say_dialogue', dialogueStyle, 'gui.text_size', 'gui.text_font', boxStyle.textAlign, options),
+    '    xpos gui.dialogue_xpos',
+    '    ypos gui.dialogue_ypos',
+    '    xsize gui.dialogue_width',
+    '',
+    ...(hasPlate ? [
+      'style namebox:',
+      '    xpos gui.name_xpos',
+      '    xanchor gui.name_xalign',
+      '    ypos gui.name_ypos',
+      vertical === 'above' ? '    yanchor 1.0' : vertical === 'edge' ? '    yanchor 0.5' : null,
+      `    padding (${px(platePadding.left, options)}, ${px(platePadding.top, options)}, ${px(platePadding.right, options)}, ${px(platePadding.bottom, options)})`,
+      namePlate.minWidth > 0 ? `    xminimum ${px(namePlate.minWidth + platePadding.left + platePadding.right, options)}` : null,
+      ...nameboxBackground(namePlate),
+      '',
+    ] : []),
+    ...choiceBlock(template, options),
+    ...(template.hud.quickMenu ? quickMenuBlock(template, options) : []),
+    '## Ren\'Py has no built-in second dialogue line; use this style for a',
+    '## translation/subtitle text added to the say screen.',
+    textStyleBlock('say_secondary', secondaryDialogueStyle, 'gui.secondary_text_size', 'gui.secondary_text_font', boxStyle.textAlign, options),
+    '',
+  ].filter(line => line !== null).join('\n');
+
+  const files: EngineExportFile[] = [
+    { fileName: 'gui.rpy', content: gui },
+    { fileName: 'screens.rpy', content: screens },
+  ];
+  if (boxStyle.type === 'image' && boxStyle.frame) {
+    files.push({ fileName: frameFileName(boxStyle.frame, 'textbox'), content: dataUrlToBlob(boxStyle.frame.image) });
+  }
+  if (hasPlate && namePlate.type === 'image' && namePlate.frame) {
+    files.push({ fileName: frameFileName(namePlate.frame, 'namebox'), content: dataUrlToBlob(namePlate.frame.image) });
+  }
+  return files;
+}
+
+export const renpyExporter: EngineExporter = {
+  id: 'renpy',
+  label: "Ren'Py (gui.rpy / screens.rpy)",
+  exportTemplate: exportRenpy,
+};
@@ -0,0 +1,26 @@
+import { UITemplate } from '../types';
+
+export interface EngineExportOptions {
+  // Resolution of the target game, which the mockup's sizes are scaled to
+  width: number;
+  height: number;
+}
+
+export interface EngineExportFile {
+  // May include a folder, e.g. gui/textbox.png
+  fileName: string;
+  content: string | Blob;
+}
+
+export interface EngineExporter {
+  id: string;
+  label: string;
+  exportTemplate: (template: UITemplate, options: EngineExportOptions) => EngineExportFile[];
+}
+
+export function dataUrlToBlob(dataUrl: string) {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+}
@@ -0,0 +1,68 @@
+import { CustomFont, UITemplate } from './types';
+
+export const FONTS = [
+  { label: 'Sans-serif (Modern)', value: 'sans-serif' },
+  { label: 'Serif (Classic)', value: 'serif' },
+  { label: 'Monospace (Retro)', value: 'monospace' },
+  { label: 'System UI', value: 'system-ui' },
+];
+
+export const FALLBACK_FONT = 'sans-serif';
+
+const FONT_FORMATS: Record<string, CustomFont['format']> = {
+  ttf: 'truetype',
+  otf: 'opentype',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+export function isGenericFont(family: string) {
+  return FONTS.some(f => f.value === family);
+}
+
+export function readFontFile(file: File, existing: CustomFont[]): Promise<CustomFont> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const format = FONT_FORMATS[extension];
+  if (!format) {
+    return Promise.reject(new Error(`"${file.name}" is not a TTF, OTF, WOFF or WOFF2 font.`));
+  }
+  // Family names must stay unique and must not shadow the generic families
+  const base = file.name.replace(/\.[^.]+$/, '').trim() || 'Custom Font';
+  let family = base;
+  for (let n = 2; isGenericFont(family) || existing.some(f => f.family === family); n++) {
+    family = `${base} ${n}`;
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve({ family, fileName: file.name, format, data: event.target?.result as string });
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function registerFont(font: CustomFont) {
+  const face = new FontFace(font.family, `url(${font.data}) format("${font.format}")`);
+  await face.load();
+  document.fonts.add(face);
+}
+
+// CSS font-family for a style, falling back when the font isn't available
+export function fontStack(family: string, available: Set<string>) {
+  if (isGenericFont(family)) return family;
+  return available.has(family) ? `"${family}", ${FALLBACK_FONT}` : FALLBACK_FONT;
+}
+
+export function templateFontFamilies(template: UITemplate) {
+  const languageFonts = Object.values(template.languageStyles).flatMap(style => style.fontFamily ? [style.fontFamily] : []);
+  return Array.from(new Set([...[template.nameStyle, template.dialogueStyle, template.secondaryDialogueStyle, template.choiceTextStyle, template.hud.textStyle].map(style => style.fontFamily), ...languageFonts]));
+}
+
+export function collectTemplateFonts(template: UITemplate, fonts: CustomFont[]) {
+  const families = templateFontFamilies(template);
+  return fonts.filter(font => families.includes(font.family));
+}
+
+export function mergeFonts(fonts: CustomFont[], incoming: CustomFont[] = []) {
+  const missing = incoming.filter(font => !fonts.some(f => f.family === font.family));
+  return missing.length > 0 ? [...fonts, ...missing] : fonts;
+}
@@ -0,0 +1,30 @@
+// Editor-only overlays drawn over the preview stage. They are kept out of projects and
+// never reach the renderer, so exports can't pick them up.
+
+export interface GuideSettings {
+  safeAreas: boolean;
+  thirds: boolean;
+  grid: boolean;
+  // Grid cell size in export pixels
+  gridSize: number;
+}
+
+export const DEFAULT_GUIDES: GuideSettings = { safeAreas: false, thirds: false, grid: false, gridSize: 64 };
+
+// Insets from each edge as a fraction of the frame, following SMPTE ST 2046-1
+export const ACTION_SAFE_INSET = 0.035;
+export const TITLE_SAFE_INSET = 0.05;
+
+const GUIDES_KEY = 'vn-mockup-guides';
+
+export function loadGuides(): GuideSettings {
+  try {
+    return { ...DEFAULT_GUIDES, ...JSON.parse(localStorage.getItem(GUIDES_KEY) ?? '{}') };
+  } catch (err) {
+    return DEFAULT_GUIDES;
+  }
+}
+
+export function saveGuides(guides: GuideSettings) {
+  localStorage.setItem(GUIDES_KEY, JSON.stringify(guides));
+}
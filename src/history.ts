@@ -0,0 +1,129 @@
+import { useState } from 'react';
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+  time: number;
+  // Changed paths, used to merge consecutive edits of the same field
+  key: string | null;
+}
+
+interface HistoryStack<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+export interface HistoryOptions<T> {
+  // Top-level fields whose changes update the present without adding an entry
+  untracked?: (keyof T)[];
+  limit?: number;
+  // Edits to the same field closer together than this become one entry, so a slider drag undoes in one step
+  coalesceMs?: number;
+}
+
+type Path = (string | number)[];
+
+const MAX_DIFF_PATHS = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Leaf paths that differ between two immutable snapshots; shared references are skipped
+function diffPaths(a: unknown, b: unknown, path: Path, out: Path[]) {
+  if (a === b || out.length >= MAX_DIFF_PATHS) return;
+  if (isRecord(a) && isRecord(b)) {
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key => diffPaths(a[key], b[key], [...path, key], out));
+  } else if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    a.forEach((item, i) => diffPaths(item, b[i], [...path, i], out));
+  } else {
+    out.push(path);
+  }
+}
+
+function commonPrefix(paths: Path[]): Path {
+  const [first, ...rest] = paths;
+  let length = first.length;
+  rest.forEach(path => {
+    let i = 0;
+    while (i < length && i < path.length && path[i] === first[i]) i++;
+    length = i;
+  });
+  return first.slice(0, length);
+}
+
+// ['beats', 1, 'dialogue'] -> 'Beat 2 dialogue'
+export function describePath(path: Path) {
+  const words = path.map((segment, i) => {
+    if (typeof segment === 'number') return String(segment + 1);
+    const word = segment.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return typeof path[i + 1] === 'number' ? word.replace(/s$/, '') : word;
+  });
+  const text = words.join(' ');
+  return text ? text.charAt(0).toUpperCase() + text.slice(1) : 'Edit';
+}
+
+export function useHistory<T extends object>(initial: () => T, { untracked = [], limit = 100, coalesceMs = 1000 }: HistoryOptions<T> = {}) {
+  const [stack, setStack] = useState<HistoryStack<T>>(() => ({
+    entries: [{ state: initial(), label: 'Opened project', time: Date.now(), key: null }],
+    index: 0
+  }));
+
+  const setState = (action: T | ((prev: T) => T), label?: string) => {
+    setStack(prev => {
+      const current = prev.entries[prev.index];
+      const next = typeof action === 'function' ? (action as (prev: T) => T)(current.state) : action;
+      if (next === current.state) return prev;
+
+      const paths: Path[] = [];
+      diffPaths(current.state, next, [], paths);
+      const tracked = paths.filter(path => !untracked.includes(path[0] as keyof T));
+      const entries = [...prev.entries];
+      if (tracked.length === 0) {
+        entries[prev.index] = { ...current, state: next };
+        return { entries, index: prev.index };
+      }
+
+      const now = Date.now();
+      const key = label ? null : tracked.map(path => path.join('.')).join('|');
+      if (key && prev.index > 0 && current.key === key && now - current.time < coalesceMs) {
+        entries[prev.index] = { ...current, state: next, time: now };
+        return { entries, index: prev.index };
+      }
+
+      const entry = { state: next, label: label ?? describePath(commonPrefix(tracked)), time: now, key };
+      const kept = [...entries.slice(0, prev.index + 1), entry].slice(-limit);
+      return { entries: kept, index: kept.length - 1 };
+    });
+  };
+
+  // Restores a snapshot whole, untracked fields included, so undo returns to where the edit was made
+  const move = (target: (index: number) => number) => {
+    setStack(prev => {
+      const index = target(prev.index);
+      if (index < 0 || index >= prev.entries.length || index === prev.index) return prev;
+      // The next edit starts a new entry rather than merging into the restored one
+      const entries = [...prev.entries];
+      entries[index] = { ...entries[index], key: null };
+      return { entries, index };
+    });
+  };
+
+  // Starts a fresh history, e.g. when switching to another project
+  const reset = (state: T, label = 'Opened project') => {
+    setStack({ entries: [{ state, label, time: Date.now(), key: null }], index: 0 });
+  };
+
+  return {
+    state: stack.entries[stack.index].state,
+    setState,
+    entries: stack.entries,
+    index: stack.index,
+    canUndo: stack.index > 0,
+    canRedo: stack.index < stack.entries.length - 1,
+    undo: () => move(index => index - 1),
+    redo: () => move(index => index + 1),
+    jumpTo: (index: number) => move(() => index),
+    reset
+  };
+}
@@ -0,0 +1,40 @@
+import { HudPosition, HudStyle, QuickMenuButton } from './types';
+
+// Quick menu buttons in Ren'Py's default order. Icons are stroked 24x24 SVG paths so the
+// preview (inline SVG) and the renderer (Path2D) draw the same shapes.
+export const QUICK_MENU_BUTTONS: Record<QuickMenuButton, { label: string, icon: string }> = {
+  back: { label: 'Back', icon: 'M11 17l-5-5 5-5 M18 17l-5-5 5-5' },
+  log: { label: 'Log', icon: 'M4 6h16 M4 12h16 M4 18h10' },
+  auto: { label: 'Auto', icon: 'M7 5l12 7-12 7z' },
+  skip: { label: 'Skip', icon: 'M4 5l8 7-8 7z M12 5l8 7-8 7z' },
+  save: { label: 'Save', icon: 'M5 3h11l3 3v15H5z M8 3v5h7V3 M8 21v-7h8v7' },
+  load: { label: 'Load', icon: 'M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v9a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z' },
+  settings: { label: 'Settings', icon: 'M4 6h9 M17 6h3 M4 12h3 M11 12h9 M4 18h11 M19 18h1 M13 6a2 2 0 1 0 4 0a2 2 0 1 0-4 0 M7 12a2 2 0 1 0 4 0a2 2 0 1 0-4 0 M15 18a2 2 0 1 0 4 0a2 2 0 1 0-4 0' },
+};
+
+export const HUD_ICON_VIEWBOX = 24;
+export const HUD_ICON_STROKE = 2;
+// Extra stroke width of the black outline behind outlined icons, in icon units
+export const HUD_ICON_OUTLINE = 2;
+
+export const HUD_BADGE_PADDING_X = 12;
+export const HUD_BADGE_PADDING_Y = 4;
+export const HUD_BADGE_BACKGROUND = 'rgba(0, 0, 0, 0.6)';
+
+export function hudPlacement(position: HudPosition) {
+  const [vertical, side] = position.split('-') as ['top' | 'bottom', 'left' | 'center' | 'right'];
+  return { vertical, side };
+}
+
+// Skip wins over auto, as in Ren'Py where skipping stops auto-forward
+export function hudBadgeLabel(hud: HudStyle) {
+  if (!hud.modeBadge) return null;
+  if (hud.activeButtons.includes('skip')) return 'Skipping';
+  if (hud.activeButtons.includes('auto')) return 'Auto';
+  return null;
+}
+
+// The badge takes the top-left corner unless the quick menu is there
+export function hudBadgeSide(hud: HudStyle): 'left' | 'right' {
+  return hud.quickMenu && hud.position === 'top-left' ? 'right' : 'left';
+}
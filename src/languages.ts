@@ -0,0 +1,144 @@
+import { LanguageStyle, LanguageTrack, LocalizedText, SceneState, TextStyle, TrackDisplay, UITemplate } from './types';
+import { findCharacter } from './characters';
+
+export const LANGUAGE_PRESETS: LanguageTrack[] = [
+  { code: 'en', name: 'English' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'zh-Hans', name: 'Chinese (Simplified)' },
+  { code: 'zh-Hant', name: 'Chinese (Traditional)' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'ru', name: 'Russian' },
+];
+
+export const DEFAULT_LANGUAGE_STYLE: LanguageStyle = { fontFamily: null, fontScale: 100, upright: false };
+
+// Loose BCP 47 shape: a language subtag, then any region or script subtags
+const CODE_PATTERN = /^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$/;
+
+export function isLanguageCode(code: string) {
+  return CODE_PATTERN.test(code);
+}
+
+export function languageName(languages: LanguageTrack[], code: string) {
+  return languages.find(l => l.code === code)?.name ?? code;
+}
+
+export function trackText(text: LocalizedText, code: string | null) {
+  return code === null ? '' : text[code] ?? '';
+}
+
+// A speaker's name in one language, or as written in the beat when the roster has no translation
+export function speakerName(state: SceneState, name: string, code: string | null) {
+  return trackText(findCharacter(state.characters, name)?.names ?? {}, code) || name;
+}
+
+// Every distinct name written in beats and their backlog entries, in order of first use
+export function sceneSpeakers(state: SceneState) {
+  const names = state.beats.flatMap(beat => [beat.characterName, ...(beat.backlog?.entries.map(entry => entry.characterName) ?? [])]);
+  return Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+}
+
+// The two lines a beat shows for the selected tracks
+export function displayedLines(text: LocalizedText, display: TrackDisplay) {
+  return {
+    primary: trackText(text, display.primary),
+    secondary: display.secondary === display.primary ? '' : trackText(text, display.secondary)
+  };
+}
+
+export function languageTextStyle(style: TextStyle, template: UITemplate, code: string | null): TextStyle {
+  const override = code === null ? undefined : template.languageStyles[code];
+  if (!override) return style;
+  return {
+    ...style,
+    fontFamily: override.fontFamily ?? style.fontFamily,
+    fontSize: Math.max(1, Math.round(style.fontSize * override.fontScale / 100)),
+    isItalic: style.isItalic && !override.upright
+  };
+}
+
+// Points the display back at existing tracks, e.g. after one is removed
+export function normalizeDisplay(display: TrackDisplay, languages: LanguageTrack[]): TrackDisplay {
+  const exists = (code: string | null) => code !== null && languages.some(l => l.code === code);
+  const primary = exists(display.primary) ? display.primary : languages[0].code;
+  return { primary, secondary: exists(display.secondary) && display.secondary !== primary ? display.secondary : null };
+}
+
+function mapTemplates(state: SceneState, update: (styles: Record<string, LanguageStyle>) => Record<string, LanguageStyle>) {
+  const apply = (template: UITemplate) => ({
+    ...template,
+    languageStyles: update(template.languageStyles),
+    // Children that changed language styles override the whole map
+    overrides: 'languageStyles' in template.overrides
+      ? { ...template.overrides, languageStyles: update(template.overrides.languageStyles as Record<string, LanguageStyle>) }
+      : template.overrides
+  });
+  return { template: apply(state.template), savedTemplates: state.savedTemplates.map(apply) };
+}
+
+function renameKey<T>(record: Record<string, T>, from: string, to: string) {
+  if (!(from in record)) return record;
+  const { [from]: value, ...rest } = record;
+  return { ...rest, [to]: value };
+}
+
+function dropKey<T>(record: Record<string, T>, key: string) {
+  const { [key]: _, ...rest } = record;
+  return rest;
+}
+
+// Applies a change to every piece of text keyed by language: beat lines, choice options and backlog entries
+function mapText(state: SceneState, update: (text: LocalizedText) => LocalizedText) {
+  return state.beats.map(beat => ({
+    ...beat,
+    text: update(beat.text),
+    choiceMenu: beat.choiceMenu && {
+      ...beat.choiceMenu,
+      options: beat.choiceMenu.options.map(option => ({ ...option, text: update(option.text) }))
+    },
+    backlog: beat.backlog && {
+      ...beat.backlog,
+      entries: beat.backlog.entries.map(entry => ({ ...entry, text: update(entry.text) }))
+    }
+  }));
+}
+
+// Changes a track's code everywhere it keys text and styles
+export function renameLanguageCode(state: SceneState, from: string, to: string): SceneState {
+  const rename = (code: string | null) => code === from ? to : code;
+  return {
+    ...state,
+    ...mapTemplates(state, styles => renameKey(styles, from, to)),
+    languages: state.languages.map(l => l.code === from ? { ...l, code: to } : l),
+    beats: mapText(state, text => renameKey(text, from, to)),
+    characters: state.characters.map(c => ({ ...c, names: renameKey(c.names, from, to) })),
+    display: { primary: rename(state.display.primary)!, secondary: rename(state.display.secondary) }
+  };
+}
+
+// How much text a track holds, for warning before it's removed
+export function languageUsage(state: SceneState, code: string) {
+  const count = (texts: LocalizedText[]) => texts.filter(text => text[code]).length;
+  return {
+    lines: count(state.beats.map(beat => beat.text)),
+    choices: count(state.beats.flatMap(beat => beat.choiceMenu?.options.map(option => option.text) ?? [])),
+    backlog: count(state.beats.flatMap(beat => beat.backlog?.entries.map(entry => entry.text) ?? [])),
+    names: count(state.characters.map(c => c.names)),
+  };
+}
+
+export function removeLanguage(state: SceneState, code: string): SceneState {
+  const languages = state.languages.filter(l => l.code !== code);
+  return {
+    ...state,
+    ...mapTemplates(state, styles => dropKey(styles, code)),
+    languages,
+    beats: mapText(state, text => dropKey(text, code)),
+    characters: state.characters.map(c => ({ ...c, names: dropKey(c.names, code) })),
+    display: normalizeDisplay(state.display, languages)
+  };
+}
@@ -0,0 +1,96 @@
+import { BoxStyle, NamePlateStyle } from './types';
+import { frameBorders } from './nineSlice';
+
+// Scene layout is defined in reference pixels at the width the fit-mode
+// preview was tuned for. The preview stage and every export scale it by
+// outputWidth / PREVIEW_REFERENCE_WIDTH, so both show the same layout.
+export const PREVIEW_REFERENCE_WIDTH = 1024;
+
+export const BOX_MARGIN = 32;
+export const BOX_PADDING = 32;
+export const CONTENT_INSET = 96;
+// The gradient box's top padding, as a fraction of the width
+export const GRADIENT_TOP_PADDING = 0.1;
+// Share of a centered gradient band's height that fades out at each end
+export const GRADIENT_BAND_FADE = 0.3;
+
+export const LINE_HEIGHT = 1.3;
+export const TEXT_BLOCK_GAP = 8;
+export const INDICATOR_SCALE = 0.6;
+export const INDICATOR_GAP = 8;
+
+// Black text-shadow offsets that make up the outline
+export const TEXT_OUTLINE_OFFSETS: [number, number][] = [[2, 2], [-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+// Sprite height at scale 1, as a fraction of the scene height
+export const SPRITE_HEIGHT = 0.9;
+export const SPRITE_DIM_AMOUNT = 0.5;
+
+// Backlog panel: gap between the name and text columns, and the scrollbar beside the entries
+export const BACKLOG_COLUMN_GAP = 16;
+export const BACKLOG_SCROLLBAR_WIDTH = 6;
+export const BACKLOG_SCROLLBAR_GAP = 12;
+// Scrollbar track and thumb, in the dialogue color at these alphas
+export const BACKLOG_TRACK_ALPHA = 0.15;
+export const BACKLOG_THUMB_ALPHA = 0.6;
+
+export const CHOICE_PADDING_X = 24;
+export const CHOICE_PADDING_Y = 12;
+
+export const BOX_DECORATIONS: Record<BoxStyle['type'], { radius: number, borderWidth: number, borderColor: string, glow?: { blur: number, color: string } }> = {
+  gradient: { radius: 0, borderWidth: 0, borderColor: 'transparent' },
+  solid: { radius: 8, borderWidth: 0, borderColor: 'transparent' },
+  fantasy: { radius: 4, borderWidth: 4, borderColor: '#b8860b', glow: { blur: 15, color: 'rgba(184, 134, 11, 0.5)' } },
+  romance: { radius: 24, borderWidth: 2, borderColor: '#ffb6c1' },
+  image: { radius: 0, borderWidth: 0, borderColor: 'transparent' },
+};
+
+export function textShadowCss() {
+  return TEXT_OUTLINE_OFFSETS.map(([x, y]) => `${x}px ${y}px 0 #000`).join(', ');
+}
+
+export function sceneHeight(width: number, height: number) {
+  return PREVIEW_REFERENCE_WIDTH * (height / width);
+}
+
+// Space between the textbox's outer edge and its text, so the preview can line up with the canvas.
+// Gradients fade out on the side facing the scene, and cover the whole scene in NVL layouts.
+export function textboxPadding(box: BoxStyle) {
+  const W = PREVIEW_REFERENCE_WIDTH;
+  if (box.type === 'gradient') {
+    const edge = W * (box.padding / 100);
+    const fade = W * GRADIENT_TOP_PADDING;
+    switch (box.layout) {
+      case 'nvl': {
+        const margin = W * (box.nvlMargin / 100);
+        return { top: margin, right: margin, bottom: margin, left: margin };
+      }
+      case 'adv-top': return { top: edge, right: 0, bottom: fade, left: 0 };
+      case 'centered': return { top: fade, right: 0, bottom: fade, left: 0 };
+      default: return { top: fade, right: 0, bottom: edge, left: 0 };
+    }
+  }
+  const frameInsets = box.type === 'image' && box.frame ? frameBorders(box.frame) : null;
+  const border = BOX_DECORATIONS[box.type].borderWidth;
+  const padding = frameInsets
+    ? { top: Math.max(BOX_PADDING, frameInsets.top), right: Math.max(BOX_PADDING, frameInsets.right), bottom: Math.max(BOX_PADDING, frameInsets.bottom), left: Math.max(BOX_PADDING, frameInsets.left) }
+    : { top: BOX_PADDING, right: BOX_PADDING, bottom: BOX_PADDING, left: BOX_PADDING };
+  return { top: padding.top + border, right: padding.right + border, bottom: padding.bottom + border, left: padding.left + border };
+}
+
+// Space between a name plate's edge and the name, including its border; image plates keep clear of the frame
+export function namePlatePadding(plate: NamePlateStyle) {
+  const frame = plate.type === 'image' && plate.frame ? frameBorders(plate.frame) : { top: 0, right: 0, bottom: 0, left: 0 };
+  const border = plate.type === 'solid' ? plate.borderWidth : 0;
+  return {
+    top: Math.max(plate.paddingY, frame.top) + border,
+    right: Math.max(plate.paddingX, frame.right) + border,
+    bottom: Math.max(plate.paddingY, frame.bottom) + border,
+    left: Math.max(plate.paddingX, frame.left) + border,
+  };
+}
+
+export function namePlatePlacement(plate: NamePlateStyle) {
+  const [vertical, side] = plate.anchor.split('-') as ['above' | 'edge' | 'inset', 'left' | 'center' | 'right'];
+  return { vertical, side };
+}
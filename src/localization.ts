@@ -0,0 +1,328 @@
+import { LanguageTrack, LocalizedText, SceneState } from './types';
+import { LANGUAGE_PRESETS, isLanguageCode, sceneSpeakers, trackText } from './languages';
+import { findCharacter, withSpeakerNames } from './characters';
+
+// Translation files for speaker names, dialogue and choices. Every translatable string is a unit
+// with an ID that survives reordering and editing:
+//   <beat id>                  the beat's line
+//   <beat id>/<option id>      a choice in that beat
+//   <beat id>/<entry id>       a backlog entry in that beat
+//   speaker/<name>             a speaker name, as written in beats
+
+export type LocalizationFormat = 'csv' | 'xliff-1.2' | 'xliff-2.0';
+
+export interface LocalizationUnit {
+  id: string;
+  kind: 'speaker' | 'line' | 'choice' | 'backlog';
+  // Where the unit appears, for translators and the import diff
+  context: string;
+  speaker: string;
+  text: LocalizedText;
+}
+
+export interface TranslationChange {
+  id: string;
+  context: string;
+  language: string;
+  before: string;
+  after: string;
+}
+
+export interface LocalizationDiff {
+  format: LocalizationFormat;
+  languages: string[];
+  changed: TranslationChange[];
+  unchanged: number;
+  // Units in the project that the file has no entry for
+  missing: LocalizationUnit[];
+  // IDs in the file that match nothing in the project, e.g. lines deleted since export
+  orphaned: string[];
+  // Languages in the file without a track; they are added as tracks when the diff is applied
+  newLanguages: string[];
+}
+
+export class LocalizationFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalizationFormatError';
+  }
+}
+
+const SPEAKER_PREFIX = 'speaker/';
+const CSV_META_COLUMNS = ['id', 'context', 'speaker'];
+
+export function collectUnits(state: SceneState): LocalizationUnit[] {
+  const units: LocalizationUnit[] = [];
+  sceneSpeakers(state).forEach(name => {
+    units.push({ id: SPEAKER_PREFIX + name, kind: 'speaker', context: 'Speaker name', speaker: name, text: findCharacter(state.characters, name)?.names ?? {} });
+  });
+  state.beats.forEach((beat, i) => {
+    units.push({ id: beat.id, kind: 'line', context: `Beat ${i + 1}`, speaker: beat.characterName, text: beat.text });
+    beat.choiceMenu?.options.forEach((option, j) => {
+      units.push({ id: `${beat.id}/${option.id}`, kind: 'choice', context: `Beat ${i + 1}, choice ${j + 1}`, speaker: '', text: option.text });
+    });
+    beat.backlog?.entries.forEach((entry, j) => {
+      units.push({ id: `${beat.id}/${entry.id}`, kind: 'backlog', context: `Beat ${i + 1}, backlog entry ${j + 1}`, speaker: entry.characterName, text: entry.text });
+    });
+  });
+  return units;
+}
+
+// A speaker name is its own translation until someone writes another
+function unitText(unit: LocalizationUnit, code: string) {
+  return trackText(unit.text, code) || (unit.kind === 'speaker' ? unit.speaker : '');
+}
+
+// ---- CSV ----
+
+function csvField(value: string) {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportCsv(state: SceneState) {
+  const codes = state.languages.map(l => l.code);
+  const rows = [
+    [...CSV_META_COLUMNS, ...codes],
+    ...collectUnits(state).map(unit => [unit.id, unit.context, unit.speaker, ...codes.map(code => unitText(unit, code))])
+  ];
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(source: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new LocalizationFormatError('The CSV ends inside a quoted field.');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+}
+
+// ---- XLIFF ----
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unitNote(unit: LocalizationUnit) {
+  return unit.speaker && unit.kind !== 'speaker' ? `${unit.context} · ${unit.speaker}` : unit.context;
+}
+
+export function exportXliff(state: SceneState, version: '1.2' | '2.0', source: string, target: string, original = 'scene') {
+  const units = collectUnits(state);
+  const header = '<?xml version="1.0" encoding="UTF-8"?>';
+  if (version === '1.2') {
+    const body = units.map(unit => {
+      const translation = trackText(unit.text, target);
+      return [
+        `      <trans-unit id="${escapeXml(unit.id)}" xml:space="preserve">`,
+        `        <source>${escapeXml(unitText(unit, source))}</source>`,
+        ...(translation ? [`        <target>${escapeXml(translation)}</target>`] : []),
+        `        <note>${escapeXml(unitNote(unit))}</note>`,
+        '      </trans-unit>'
+      ].join('\n');
+    });
+    return [
+      header,
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file original="${escapeXml(original)}" source-language="${escapeXml(source)}" target-language="${escapeXml(target)}" datatype="plaintext">`,
+      '    <body>',
+      ...body,
+      '    </body>',
+      '  </file>',
+      '</xliff>',
+      ''
+    ].join('\n');
+  }
+  const body = units.map(unit => {
+    const translation = trackText(unit.text, target);
+    return [
+      `    <unit id="${escapeXml(unit.id)}" xml:space="preserve">`,
+      `      <notes><note>${escapeXml(unitNote(unit))}</note></notes>`,
+      '      <segment>',
+      `        <source>${escapeXml(unitText(unit, source))}</source>`,
+      ...(translation ? [`        <target>${escapeXml(translation)}</target>`] : []),
+      '      </segment>',
+      '    </unit>'
+    ].join('\n');
+  });
+  return [
+    header,
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(source)}" trgLang="${escapeXml(target)}">`,
+    `  <file id="${escapeXml(original)}">`,
+    ...body,
+    '  </file>',
+    '</xliff>',
+    ''
+  ].join('\n');
+}
+
+// ---- Import ----
+
+// Translations read from a file: unit ID -> language code -> text
+type TranslationTable = Map<string, LocalizedText>;
+
+// Spreadsheets and XLIFF tools often write locales with underscores, like pt_BR
+function fileLanguage(code: string, label: string) {
+  const normalized = code.trim().replace(/_/g, '-');
+  if (!isLanguageCode(normalized)) throw new LocalizationFormatError(`${label} "${code}" isn't a language code like en, ja or zh-Hans.`);
+  return normalized;
+}
+
+function readCsv(source: string): { languages: string[], table: TranslationTable } {
+  const [header, ...rows] = parseCsv(source.replace(/^\uFEFF/, ''));
+  if (!header) throw new LocalizationFormatError('The CSV is empty.');
+  const columns = header.map(cell => cell.trim());
+  const idColumn = columns.findIndex(c => c.toLowerCase() === 'id');
+  if (idColumn === -1) throw new LocalizationFormatError('The CSV has no "id" column.');
+  const languageColumns = columns
+    .map((header, index) => ({ header, index }))
+    .filter(({ header }) => !CSV_META_COLUMNS.includes(header.toLowerCase()))
+    .map(({ header, index }) => ({ code: fileLanguage(header, 'Column'), index }));
+
+  const table: TranslationTable = new Map();
+  rows.forEach(row => {
+    const id = row[idColumn]?.trim();
+    if (!id) return;
+    const text: LocalizedText = {};
+    // Empty cells are untranslated and leave the project's text alone
+    languageColumns.forEach(({ code, index }) => {
+      if (row[index]) text[code] = row[index];
+    });
+    table.set(id, text);
+  });
+  return { languages: languageColumns.map(c => c.code), table };
+}
+
+function readXliff(source: string): { format: LocalizationFormat, languages: string[], table: TranslationTable } {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new LocalizationFormatError('The XLIFF file is not well-formed XML.');
+  const root = doc.documentElement;
+  if (root.localName !== 'xliff') throw new LocalizationFormatError('The file has no <xliff> root element.');
+  const byTag = (parent: Element | Document, tag: string) => Array.from(parent.getElementsByTagNameNS('*', tag));
+  const table: TranslationTable = new Map();
+
+  if (root.getAttribute('version') === '1.2') {
+    const files = byTag(doc, 'file');
+    const languages = new Set<string>();
+    files.forEach(file => {
+      const attribute = file.getAttribute('target-language');
+      if (!attribute) throw new LocalizationFormatError('An XLIFF 1.2 <file> has no target-language.');
+      const target = fileLanguage(attribute, 'The target-language');
+      languages.add(target);
+      byTag(file, 'trans-unit').forEach(unit => {
+        const id = unit.getAttribute('id');
+        const translation = byTag(unit, 'target')[0]?.textContent ?? '';
+        if (id) table.set(id, { ...table.get(id), ...(translation ? { [target]: translation } : {}) });
+      });
+    });
+    return { format: 'xliff-1.2', languages: Array.from(languages), table };
+  }
+
+  if (root.getAttribute('version') === '2.0') {
+    const attribute = root.getAttribute('trgLang');
+    if (!attribute) throw new LocalizationFormatError('The XLIFF 2.0 file has no trgLang.');
+    const target = fileLanguage(attribute, 'The trgLang');
+    byTag(doc, 'unit').forEach(unit => {
+      const id = unit.getAttribute('id');
+      // A unit may be split into several segments; they join back into one line
+      const translation = byTag(unit, 'segment').map(segment => byTag(segment, 'target')[0]?.textContent ?? '').join('');
+      if (id) table.set(id, translation ? { [target]: translation } : {});
+    });
+    return { format: 'xliff-2.0', languages: [target], table };
+  }
+
+  throw new LocalizationFormatError(`XLIFF version "${root.getAttribute('version') ?? ''}" isn't supported; use 1.2 or 2.0.`);
+}
+
+export function diffLocalization(state: SceneState, source: string, fileName: string): LocalizationDiff {
+  const isCsv = /\.csv$/i.test(fileName) || !source.trimStart().startsWith('<');
+  const { format, languages, table } = isCsv ? { format: 'csv' as const, ...readCsv(source) } : readXliff(source);
+
+  const units = collectUnits(state);
+  const changed: TranslationChange[] = [];
+  let unchanged = 0;
+  units.forEach(unit => {
+    const incoming = table.get(unit.id);
+    if (!incoming) return;
+    Object.entries(incoming).forEach(([language, after]) => {
+      const before = trackText(unit.text, language);
+      // A speaker name identical to the original isn't a translation
+      const isUntouchedName = unit.kind === 'speaker' && !before && after === unit.speaker;
+      if (after === before || isUntouchedName) unchanged++;
+      else changed.push({ id: unit.id, context: unit.context, language, before, after });
+    });
+  });
+  const known = new Set(units.map(u => u.id));
+  return {
+    format,
+    languages,
+    changed,
+    unchanged,
+    missing: units.filter(unit => !table.has(unit.id)),
+    orphaned: Array.from(table.keys()).filter(id => !known.has(id)),
+    newLanguages: languages.filter(code => !state.languages.some(l => l.code === code))
+  };
+}
+
+export function applyLocalization(state: SceneState, diff: LocalizationDiff): SceneState {
+  const updates = new Map<string, LocalizedText>();
+  diff.changed.forEach(change => updates.set(change.id, { ...updates.get(change.id), [change.language]: change.after }));
+  const apply = (id: string, text: LocalizedText) => updates.has(id) ? { ...text, ...updates.get(id) } : text;
+
+  // Translated speakers missing from the roster join it
+  let characters = state.characters;
+  updates.forEach((text, id) => {
+    if (id.startsWith(SPEAKER_PREFIX)) characters = withSpeakerNames(characters, id.slice(SPEAKER_PREFIX.length), text);
+  });
+  const added: LanguageTrack[] = diff.newLanguages.map(code => LANGUAGE_PRESETS.find(p => p.code === code) ?? { code, name: code });
+
+  return {
+    ...state,
+    languages: [...state.languages, ...added],
+    characters,
+    beats: state.beats.map(beat => ({
+      ...beat,
+      text: apply(beat.id, beat.text),
+      choiceMenu: beat.choiceMenu && {
+        ...beat.choiceMenu,
+        options: beat.choiceMenu.options.map(option => ({ ...option, text: apply(`${beat.id}/${option.id}`, option.text) }))
+      },
+      backlog: beat.backlog && {
+        ...beat.backlog,
+        entries: beat.backlog.entries.map(entry => ({ ...entry, text: apply(`${beat.id}/${entry.id}`, entry.text) }))
+      }
+    }))
+  };
+}
@@ -0,0 +1,64 @@
+import { NineSliceFrame } from './types';
+
+export const DEFAULT_SLICE_INSET = 24;
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image.'));
+    img.src = src;
+  });
+}
+
+// Drawn border widths in CSS pixels
+export function frameBorders(frame: NineSliceFrame) {
+  return {
+    top: frame.top * frame.borderScale,
+    right: frame.right * frame.borderScale,
+    bottom: frame.bottom * frame.borderScale,
+    left: frame.left * frame.borderScale,
+  };
+}
+
+// Draws `img` into the rectangle as a nine-slice: corners keep their size,
+// edges stretch along one axis and the center stretches both ways.
+// `pixelRatio` maps CSS pixels to canvas pixels.
+export function drawNineSlice(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number, height: number },
+  frame: NineSliceFrame,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  pixelRatio = 1
+) {
+  const iw = img.width;
+  const ih = img.height;
+  const src = {
+    left: Math.min(frame.left, iw / 2),
+    right: Math.min(frame.right, iw / 2),
+    top: Math.min(frame.top, ih / 2),
+    bottom: Math.min(frame.bottom, ih / 2),
+  };
+  const borders = frameBorders({ ...frame, ...src });
+  // Shrink the borders proportionally when the box is smaller than its corners
+  const fit = Math.min(1, width / Math.max(borders.left + borders.right, 1), height / Math.max(borders.top + borders.bottom, 1));
+
+  const dx = [x, x + borders.left * fit, x + width - borders.right * fit, x + width].map(v => Math.round(v * pixelRatio));
+  const dy = [y, y + borders.top * fit, y + height - borders.bottom * fit, y + height].map(v => Math.round(v * pixelRatio));
+  const sx = [0, src.left, iw - src.right, iw];
+  const sy = [0, src.top, ih - src.bottom, ih];
+
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      const sw = sx[col + 1] - sx[col];
+      const sh = sy[row + 1] - sy[row];
+      const dw = dx[col + 1] - dx[col];
+      const dh = dy[row + 1] - dy[row];
+      if (sw <= 0 || sh <= 0 || dw <= 0 || dh <= 0) continue;
+      ctx.drawImage(img, sx[col], sy[row], sw, sh, dx[col], dy[row], dw, dh);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { SceneState } from './types';
+import { resolveBeatTemplate } from './templates';
+
+// NVL pages run from the last page break to the current beat. A beat drawn in an ADV layout
+// ends the page too, so switching templates mid-scene starts a fresh one.
+
+// Indices of the earlier beats whose lines are still on the current beat's page, oldest first
+export function nvlPageBeats(state: SceneState, beatIndex: number): number[] {
+  const page: number[] = [];
+  if (state.beats[beatIndex].nvlPageBreak) return page;
+  for (let i = beatIndex - 1; i >= 0; i--) {
+    const beat = state.beats[i];
+    if (resolveBeatTemplate(state, beat).boxStyle.layout !== 'nvl') break;
+    // Choices without a textbox and backlog screens leave no line on the page
+    if (!beat.backlog && (!beat.choiceMenu || beat.choiceMenu.showTextbox)) page.unshift(i);
+    if (beat.nvlPageBreak) break;
+  }
+  return page;
+}
+
+// Opacity of a line `age` lines older than the current one
+export function nvlLineOpacity(fade: number, age: number) {
+  return Math.pow(1 - fade / 100, age);
+}
@@ -0,0 +1,171 @@
+import { SceneState } from './types';
+import { parseProject, serializeProject, ProjectLoadResult } from './projectSchema';
+
+// Saved projects live in IndexedDB; images and fonts are split out and stored once per content hash,
+// so duplicated projects and beats reusing a background don't multiply their size.
+
+const DB_NAME = 'vn-mockup-library';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const ASSETS = 'assets';
+const ASSET_PREFIX = 'asset:';
+// Data URLs shorter than this stay inline; hashing them saves nothing
+const MIN_ASSET_LENGTH = 1024;
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Small JPEG data URL of the first beat
+  thumbnail: string | null;
+}
+
+interface ProjectRecord extends ProjectSummary {
+  // Serialized project with assets replaced by `asset:<hash>` references
+  data: string;
+  assets: string[];
+}
+
+interface AssetRecord {
+  hash: string;
+  data: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ASSETS)) db.createObjectStore(ASSETS, { keyPath: 'hash' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Library transaction was aborted.'));
+  });
+}
+
+async function hashString(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isAssetData(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:') && value.length >= MIN_ASSET_LENGTH;
+}
+
+// Replaces every large data URL in the project with a hash reference
+async function extractAssets(state: SceneState) {
+  const assets = new Map<string, string>();
+  const hashes = new Map<string, string>();
+  const collect = (value: unknown) => {
+    if (isAssetData(value)) hashes.set(value, '');
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (typeof value === 'object' && value !== null) Object.values(value).forEach(collect);
+  };
+  collect(state);
+  for (const data of hashes.keys()) {
+    const hash = await hashString(data);
+    hashes.set(data, hash);
+    assets.set(hash, data);
+  }
+  const data = serializeProject(state, (_, value) => isAssetData(value) ? ASSET_PREFIX + hashes.get(value) : value);
+  return { data, assets };
+}
+
+// Drops assets that no project in the library refers to any more
+async function pruneAssets(tx: IDBTransaction) {
+  const records = await promisify<ProjectRecord[]>(tx.objectStore(PROJECTS).getAll());
+  const referenced = new Set(records.flatMap(record => record.assets));
+  const assets = tx.objectStore(ASSETS);
+  const hashes = await promisify<IDBValidKey[]>(assets.getAllKeys());
+  hashes.filter(hash => !referenced.has(hash as string)).forEach(hash => assets.delete(hash));
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const records = await promisify<ProjectRecord[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return records
+    .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveProject(summary: Omit<ProjectSummary, 'updatedAt'>, state: SceneState) {
+  const { data, assets } = await extractAssets(state);
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+  const assetStore = tx.objectStore(ASSETS);
+  assets.forEach((asset, hash) => assetStore.put({ hash, data: asset } satisfies AssetRecord));
+  tx.objectStore(PROJECTS).put({ ...summary, updatedAt: Date.now(), data, assets: Array.from(assets.keys()) } satisfies ProjectRecord);
+  await pruneAssets(tx);
+  await transactionDone(tx);
+}
+
+export async function loadProject(id: string): Promise<ProjectLoadResult> {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS]);
+  const record = await promisify<ProjectRecord | undefined>(tx.objectStore(PROJECTS).get(id));
+  if (!record) throw new Error('Project not found in the library.');
+  const assets = new Map<string, string>();
+  for (const hash of record.assets) {
+    const asset = await promisify<AssetRecord | undefined>(tx.objectStore(ASSETS).get(hash));
+    if (asset) assets.set(hash, asset.data);
+  }
+  const raw = JSON.parse(record.data, (_, value) => {
+    if (typeof value !== 'string' || !value.startsWith(ASSET_PREFIX)) return value;
+    const data = assets.get(value.slice(ASSET_PREFIX.length));
+    if (data === undefined) throw new Error(`Asset ${value.slice(ASSET_PREFIX.length, ASSET_PREFIX.length + 12)}… is missing from the library.`);
+    return data;
+  });
+  return parseProject(raw);
+}
+
+export async function renameProject(id: string, name: string) {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const record = await promisify<ProjectRecord | undefined>(store.get(id));
+  if (record) store.put({ ...record, name });
+  await transactionDone(tx);
+}
+
+export async function duplicateProject(id: string, newId: string, name: string) {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const record = await promisify<ProjectRecord | undefined>(store.get(id));
+  if (!record) throw new Error('Project not found in the library.');
+  const now = Date.now();
+  // Assets are shared by hash, so the copy references the same records
+  store.put({ ...record, id: newId, name, createdAt: now, updatedAt: now });
+  await transactionDone(tx);
+}
+
+export async function deleteProject(id: string) {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  await pruneAssets(tx);
+  await transactionDone(tx);
+}
@@ -0,0 +1,599 @@
+import {
+  BackgroundFilter, BackgroundView, BacklogEntry, BacklogScreen, BacklogStyle, BoxStyle, ChoiceMenu, ChoiceOption, ChoiceStyle, CharacterExpression, CropRect, CustomFont, ExportSize, HudStyle, LanguageStyle, LanguageTrack,
+  NamePlateStyle, NineSliceFrame, SceneBeat, SceneCharacter, SceneState, SpriteLayer, TextLimits, TextStyle, TrackDisplay, TypewriterSettings,
+  UITemplate
+} from './types';
+import {
+  applyTemplateOverrides, DEFAULT_BACKLOG_STYLE, DEFAULT_HUD, DEFAULT_NAME_PLATE, DEFAULT_NVL, DEFAULT_TEMPLATES, DEFAULT_TEXT_LIMITS, isOverridePath
+} from './templates';
+import { DEFAULT_TYPEWRITER } from './typewriter';
+import { CHOICE_OPTION_LIMITS, generateId } from './scene';
+import { DEFAULT_BACKGROUND_VIEW } from './background';
+import { isLanguageCode, normalizeDisplay } from './languages';
+import { createCharacter, findCharacter } from './characters';
+
+// Bump when SceneState changes shape, and add a migration from the previous version.
+export const PROJECT_VERSION = 15;
+
+// Template files hold one template or a pack of several, in the project's template format
+export const TEMPLATE_FILE_EXTENSION = '.vntemplate';
+// Template files were introduced in this version; older numbers can't be one
+const FIRST_TEMPLATE_FILE_VERSION = 12;
+
+export class ProjectFormatError extends Error {
+  constructor(readonly path: string, detail: string) {
+    super(path ? `${path}: ${detail}` : detail);
+    this.name = 'ProjectFormatError';
+  }
+}
+
+export interface ProjectLoadResult {
+  state: SceneState;
+  // Paths of fields this version doesn't know; they are dropped on load
+  ignoredFields: string[];
+}
+
+interface ValidationContext {
+  ignoredFields: string[];
+}
+
+type Validator<T> = (value: unknown, path: string, ctx: ValidationContext) => T;
+
+function describe(value: unknown) {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Values whose shape is checked elsewhere
+const anything: Validator<unknown> = value => value;
+
+const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ProjectFormatError(path, `expected a string, got ${describe(value)}`);
+  return value;
+};
+
+const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ProjectFormatError(path, `expected true or false, got ${describe(value)}`);
+  return value;
+};
+
+function number(min = -Infinity, max = Infinity): Validator<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ProjectFormatError(path, `expected a number, got ${describe(value)}`);
+    if (value < min || value > max) throw new ProjectFormatError(path, `${value} is out of range (${min} to ${max})`);
+    return value;
+  };
+}
+
+function oneOf<T extends string>(...options: T[]): Validator<T> {
+  return (value, path) => {
+    if (!options.includes(value as T)) throw new ProjectFormatError(path, `expected one of ${options.map(o => `"${o}"`).join(', ')}, got ${describe(value)}`);
+    return value as T;
+  };
+}
+
+function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path, ctx) => value === null ? null : validator(value, path, ctx);
+}
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path, ctx) => value === undefined ? undefined : validator(value, path, ctx);
+}
+
+function array<T>(validator: Validator<T>, { nonEmpty = false, min = 0, max = Infinity } = {}): Validator<T[]> {
+  return (value, path, ctx) => {
+    if (!Array.isArray(value)) throw new ProjectFormatError(path, `expected a list, got ${describe(value)}`);
+    if (nonEmpty && value.length === 0) throw new ProjectFormatError(path, 'must not be empty');
+    if (value.length < min || value.length > max) throw new ProjectFormatError(path, `must have ${min} to ${max} entries, got ${value.length}`);
+    return value.map((item, i) => validator(item, `${path}[${i}]`, ctx));
+  };
+}
+
+// Objects used as maps, such as text keyed by language code
+function record<T>(validator: Validator<T>): Validator<Record<string, T>> {
+  return (value, path, ctx) => {
+    if (!isRecord(value)) throw new ProjectFormatError(path, `expected an object, got ${describe(value)}`);
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, validator(item, `${path}.${key}`, ctx)]));
+  };
+}
+
+// Unknown keys are left out of the result and recorded, so newer or hand-edited files still load
+function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path, ctx) => {
+    if (!isRecord(value)) throw new ProjectFormatError(path, `expected an object, got ${describe(value)}`);
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const field = shape[key](value[key], path ? `${path}.${key}` : key, ctx);
+      if (field !== undefined) result[key] = field;
+    }
+    Object.keys(value)
+      .filter(key => !(key in shape))
+      .forEach(key => ctx.ignoredFields.push(path ? `${path}.${key}` : key));
+    return result as T;
+  };
+}
+
+const textStyle = object<TextStyle>({
+  fontFamily: string,
+  fontSize: number(1),
+  color: string,
+  hasOutline: boolean,
+  isItalic: boolean,
+});
+
+const textStyleOverrides = object<Partial<TextStyle>>({
+  fontFamily: optional(string),
+  fontSize: optional(number(1)),
+  color: optional(string),
+  hasOutline: optional(boolean),
+  isItalic: optional(boolean),
+});
+
+const nineSliceFrame = object<NineSliceFrame>({
+  image: string,
+  fileName: string,
+  top: number(0),
+  right: number(0),
+  bottom: number(0),
+  left: number(0),
+  borderScale: number(0),
+});
+
+const boxStyle = object<BoxStyle>({
+  type: oneOf('gradient', 'solid', 'fantasy', 'romance', 'image'),
+  layout: oneOf('adv-bottom', 'adv-top', 'centered', 'nvl'),
+  backgroundColor: string,
+  opacity: number(0, 100),
+  padding: number(0),
+  textAlign: oneOf('left', 'center', 'right'),
+  nvlMargin: number(0, 45),
+  nvlSpacing: number(0),
+  nvlFade: number(0, 100),
+  frame: optional(nullable(nineSliceFrame)),
+});
+
+const namePlate = object<NamePlateStyle>({
+  anchor: oneOf(
+    'inline', 'above-left', 'above-center', 'above-right', 'edge-left', 'edge-center', 'edge-right', 'inset-left', 'inset-center', 'inset-right'
+  ),
+  type: oneOf('none', 'solid', 'image'),
+  backgroundColor: string,
+  opacity: number(0, 100),
+  borderColor: string,
+  borderWidth: number(0),
+  borderRadius: number(0),
+  paddingX: number(0),
+  paddingY: number(0),
+  frame: nullable(nineSliceFrame),
+  minWidth: number(0),
+  offsetX: number(),
+  offsetY: number(),
+  hideWhenEmpty: boolean,
+});
+
+const customFont = object<CustomFont>({
+  family: string,
+  fileName: string,
+  format: oneOf('truetype', 'opentype', 'woff', 'woff2'),
+  data: string,
+});
+
+const choiceStyle = object<ChoiceStyle>({
+  buttonColor: string,
+  buttonOpacity: number(0, 100),
+  borderColor: string,
+  borderWidth: number(0),
+  borderRadius: number(0),
+  hoverColor: string,
+  chosenColor: string,
+  disabledOpacity: number(0, 100),
+  width: number(0),
+  spacing: number(0),
+  verticalPosition: number(),
+});
+
+const textLimits = object<TextLimits>({
+  maxDialogueLines: number(0),
+  maxSecondaryLines: number(0),
+  maxWidth: number(10, 100),
+  maxBoxHeight: number(0, 100),
+});
+
+const languageStyle = object<LanguageStyle>({
+  fontFamily: nullable(string),
+  fontScale: number(10, 400),
+  upright: boolean,
+});
+
+const quickMenuButton = oneOf('back', 'log', 'auto', 'skip', 'save', 'load', 'settings');
+
+const hud = object<HudStyle>({
+  quickMenu: boolean,
+  buttons: array(quickMenuButton),
+  activeButtons: array(quickMenuButton),
+  display: oneOf('text', 'icon'),
+  position: oneOf('top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'),
+  spacing: number(0),
+  margin: number(0),
+  textStyle,
+  activeColor: string,
+  idleOpacity: number(0, 100),
+  modeBadge: boolean,
+  stillIndicator: boolean,
+});
+
+const backlogStyle = object<BacklogStyle>({
+  dim: number(0, 100),
+  backgroundColor: string,
+  opacity: number(0, 100),
+  borderColor: string,
+  borderWidth: number(0),
+  borderRadius: number(0),
+  width: number(10, 100),
+  height: number(10, 100),
+  padding: number(0),
+  entrySpacing: number(0),
+  entryLayout: oneOf('stacked', 'columns'),
+  nameColumnWidth: number(5, 60),
+  scrollbar: boolean,
+});
+
+const templateFields = object<UITemplate>({
+  id: string,
+  name: string,
+  parentId: nullable(string),
+  overrides: record(anything),
+  nameStyle: textStyle,
+  dialogueStyle: textStyle,
+  secondaryDialogueStyle: textStyle,
+  boxStyle,
+  namePlate,
+  choiceTextStyle: textStyle,
+  choiceStyle,
+  hud,
+  backlogStyle,
+  textLimits,
+  languageStyles: record(languageStyle),
+  fonts: optional(array(customFont)),
+});
+
+// Overrides are checked by laying them over the template's own fields, so each has to name a
+// style field and hold a value that field accepts
+export const validateTemplate: Validator<UITemplate> = (value, path, ctx) => {
+  const template = templateFields(value, path, ctx);
+  const overridesPath = path ? `${path}.overrides` : 'overrides';
+  const overrides = Object.fromEntries(Object.entries(template.overrides).filter(([key]) => {
+    if (!isOverridePath(template, key)) ctx.ignoredFields.push(`${overridesPath}.${key}`);
+    return isOverridePath(template, key);
+  }));
+  templateFields(applyTemplateOverrides(template, overrides), overridesPath, { ignoredFields: [] });
+  return { ...template, overrides };
+};
+
+const sceneCharacter = object<SceneCharacter>({
+  id: string,
+  name: string,
+  names: record(string),
+  nameColor: nullable(string),
+  nameStyle: nullable(textStyleOverrides),
+  defaultExpression: nullable(string),
+  expressions: array(object<CharacterExpression>({ name: string, image: string })),
+});
+
+const spriteLayer = object<SpriteLayer>({
+  id: string,
+  characterId: string,
+  expression: string,
+  x: number(),
+  y: number(),
+  scale: number(0),
+  flipped: boolean,
+  dimWhenSilent: boolean,
+});
+
+const choiceMenu = object<ChoiceMenu>({
+  options: array(object<ChoiceOption>({
+    id: string,
+    text: record(string),
+    state: oneOf('normal', 'hover', 'chosen', 'disabled'),
+  }), CHOICE_OPTION_LIMITS),
+  showTextbox: boolean,
+});
+
+const backgroundView = object<BackgroundView>({
+  panX: number(),
+  panY: number(),
+  zoom: number(0),
+  rotation: number(),
+  crop: object<CropRect>({ x: number(0, 100), y: number(0, 100), width: number(0, 100), height: number(0, 100) }),
+  filters: array(object<BackgroundFilter>({
+    id: string,
+    type: oneOf('dim', 'blur', 'sepia', 'grayscale', 'tint', 'vignette'),
+    amount: number(0),
+    color: string,
+  })),
+});
+
+const sceneBeat = object<SceneBeat>({
+  id: string,
+  characterName: string,
+  text: record(string),
+  image: nullable(string),
+  background: nullable(backgroundView),
+  templateId: nullable(string),
+  sprites: array(spriteLayer),
+  choiceMenu: nullable(choiceMenu),
+  backlog: nullable(object<BacklogScreen>({
+    entries: array(object<BacklogEntry>({ id: string, characterName: string, text: record(string) })),
+    scroll: number(0, 100),
+  })),
+  nvlPageBreak: boolean,
+});
+
+const validateState = object<SceneState>({
+  imageScale: oneOf('fit', 'original'),
+  exportSize: object<ExportSize>({ width: number(1), height: number(1) }),
+  beats: array(sceneBeat, { nonEmpty: true }),
+  currentBeat: number(0),
+  languages: array(object<LanguageTrack>({ code: string, name: string }), { nonEmpty: true }),
+  display: object<TrackDisplay>({ primary: string, secondary: nullable(string) }),
+  characters: array(sceneCharacter),
+  typewriter: object<TypewriterSettings>({
+    charsPerSecond: number(0),
+    sentencePause: number(0),
+    clausePause: number(0),
+  }),
+  fonts: array(customFont),
+  template: validateTemplate,
+  savedTemplates: array(validateTemplate),
+});
+
+// Fills template fields added after templates were first saved, leaving anything malformed for the validator
+function migrateTemplate(template: any) {
+  if (!isRecord(template)) return template;
+  const dialogueStyle = isRecord(template.dialogueStyle) ? template.dialogueStyle : null;
+  return {
+    ...template,
+    choiceTextStyle: template.choiceTextStyle ?? (dialogueStyle && { ...dialogueStyle, fontSize: Math.round(dialogueStyle.fontSize * 0.8) }),
+    choiceStyle: { ...DEFAULT_TEMPLATES[0].choiceStyle, ...template.choiceStyle }
+  };
+}
+
+// Each migration takes a project at the version it is keyed by to the next version
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  // v1 held a single line at the top level, before scenes became beat sequences
+  1: ({ image = null, characterName = '', dialogue = '', secondaryDialogue = '', ...rest }) => ({
+    ...rest,
+    beats: [{ id: generateId('beat'), characterName, dialogue, secondaryDialogue, image, templateId: null, sprites: [], choiceMenu: null }],
+    currentBeat: 0
+  }),
+  // v2 files have no version field; characters, typewriter, fonts, choices and export size were added since
+  2: project => ({
+    imageScale: 'fit',
+    ...project,
+    exportSize: project.exportSize ?? { width: 1920, height: 1080 },
+    characters: project.characters ?? [],
+    typewriter: { ...DEFAULT_TYPEWRITER, ...project.typewriter },
+    fonts: project.fonts ?? [],
+    beats: Array.isArray(project.beats)
+      ? project.beats.map((b: any) => isRecord(b) ? { image: null, templateId: null, ...b, sprites: b.sprites ?? [], choiceMenu: b.choiceMenu ?? null } : b)
+      : project.beats,
+    currentBeat: project.currentBeat ?? 0,
+    template: migrateTemplate(project.template ?? DEFAULT_TEMPLATES[0]),
+    savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(migrateTemplate) : project.savedTemplates ?? []
+  }),
+  // v3 templates had no text limits
+  3: project => {
+    const withLimits = (template: any) => isRecord(template) ? { ...template, textLimits: { ...DEFAULT_TEXT_LIMITS, ...template.textLimits } } : template;
+    return {
+      ...project,
+      template: withLimits(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withLimits) : project.savedTemplates
+    };
+  },
+  // v4 had fixed primary and secondary lines; they become two placeholder tracks to be given real language codes
+  4: project => {
+    const toText = (primary: unknown, secondary?: unknown) => ({
+      ...(typeof primary === 'string' ? { main: primary } : {}),
+      ...(typeof secondary === 'string' && secondary ? { sub: secondary } : {})
+    });
+    const withStyles = (template: any) => isRecord(template) ? { languageStyles: {}, ...template } : template;
+    return {
+      ...project,
+      languages: [{ code: 'main', name: 'Primary' }, { code: 'sub', name: 'Secondary' }],
+      display: { primary: 'main', secondary: 'sub' },
+      beats: Array.isArray(project.beats)
+        ? project.beats.map((b: any) => {
+          if (!isRecord(b)) return b;
+          const { dialogue, secondaryDialogue, ...beat } = b;
+          const menu = isRecord(beat.choiceMenu) && Array.isArray(beat.choiceMenu.options)
+            ? { ...beat.choiceMenu, options: beat.choiceMenu.options.map((o: any) => isRecord(o) ? { ...o, text: toText(o.text) } : o) }
+            : beat.choiceMenu;
+          return { ...beat, text: toText(dialogue, secondaryDialogue), choiceMenu: menu };
+        })
+        : project.beats,
+      template: withStyles(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withStyles) : project.savedTemplates
+    };
+  },
+  // v5 had no speaker name translations
+  5: project => ({ speakerNames: {}, ...project }),
+  // v6 could only frame the name inside image textboxes, with the box's nine-slice settings
+  6: project => {
+    const withPlate = (template: any) => {
+      if (!isRecord(template) || !isRecord(template.boxStyle)) return template;
+      const { namePlateFrame, ...boxStyle } = template.boxStyle;
+      const framed = boxStyle.type === 'image' && isRecord(namePlateFrame);
+      return {
+        ...template,
+        boxStyle,
+        namePlate: framed
+          ? { ...DEFAULT_NAME_PLATE, anchor: `inset-${boxStyle.textAlign}`, type: 'image', frame: namePlateFrame, opacity: boxStyle.opacity, paddingX: 0, paddingY: 0 }
+          : DEFAULT_NAME_PLATE
+      };
+    };
+    return {
+      ...project,
+      template: withPlate(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withPlate) : project.savedTemplates
+    };
+  },
+  // v7 boxes always sat at the bottom and showed one line at a time
+  7: project => {
+    const withLayout = (template: any) => isRecord(template) && isRecord(template.boxStyle)
+      ? { ...template, boxStyle: { layout: 'adv-bottom', ...DEFAULT_NVL, ...template.boxStyle } }
+      : template;
+    return {
+      ...project,
+      beats: Array.isArray(project.beats) ? project.beats.map((b: any) => isRecord(b) ? { nvlPageBreak: false, ...b } : b) : project.beats,
+      template: withLayout(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withLayout) : project.savedTemplates
+    };
+  },
+  // v8 backgrounds were always centered and unfiltered
+  8: project => ({ background: DEFAULT_BACKGROUND_VIEW, ...project }),
+  // v9 templates had no HUD
+  9: project => {
+    const withHud = (template: any) => isRecord(template) ? { hud: DEFAULT_HUD, ...template } : template;
+    return {
+      ...project,
+      template: withHud(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withHud) : project.savedTemplates
+    };
+  },
+  // v10 had no backlog screen
+  10: project => {
+    const withBacklog = (template: any) => isRecord(template) ? { backlogStyle: DEFAULT_BACKLOG_STYLE, ...template } : template;
+    return {
+      ...project,
+      beats: Array.isArray(project.beats) ? project.beats.map((b: any) => isRecord(b) ? { backlog: null, ...b } : b) : project.beats,
+      template: withBacklog(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withBacklog) : project.savedTemplates
+    };
+  },
+  // v11 templates couldn't extend one another
+  11: project => {
+    const withInheritance = (template: any) => isRecord(template) ? { parentId: null, overrides: {}, ...template } : template;
+    return {
+      ...project,
+      template: withInheritance(project.template),
+      savedTemplates: Array.isArray(project.savedTemplates) ? project.savedTemplates.map(withInheritance) : project.savedTemplates
+    };
+  },
+  // v12 kept translated speaker names apart from the roster, keyed by the name as written in beats;
+  // they move onto the matching characters, and speakers without one join the roster
+  12: ({ speakerNames, ...project }) => {
+    if (!Array.isArray(project.characters)) return project;
+    let characters = project.characters.map((c: any) => isRecord(c) ? { names: {}, nameColor: null, nameStyle: null, defaultExpression: null, ...c } : c);
+    Object.entries(isRecord(speakerNames) ? speakerNames : {}).forEach(([name, names]) => {
+      const rostered = characters.filter((c: any) => isRecord(c) && typeof c.name === 'string');
+      const character = findCharacter(rostered, name);
+      characters = character
+        ? characters.map((c: any) => c === character ? { ...c, names: { ...c.names, ...names } } : c)
+        : [...characters, createCharacter(name, { names })];
+    });
+    return { ...project, characters };
+  },
+  // v13 framed every beat's background the same way; each beat that set an image takes that view
+  13: ({ background, ...project }) => ({
+    ...project,
+    beats: Array.isArray(project.beats)
+      ? project.beats.map((b: any) => isRecord(b) ? { background: b.image && background !== undefined ? background : null, ...b } : b)
+      : project.beats
+  }),
+  // v14 character name styles were whole styles that replaced the template's; only the fields that differ are kept
+  14: project => {
+    const base = isRecord(project.template) && isRecord(project.template.nameStyle) ? project.template.nameStyle : {};
+    const overrides = (style: Record<string, unknown>) => Object.fromEntries(Object.entries(style).filter(([key, value]) => base[key] !== value));
+    return {
+      ...project,
+      characters: Array.isArray(project.characters)
+        ? project.characters.map((c: any) => isRecord(c) && isRecord(c.nameStyle) ? { ...c, nameStyle: overrides(c.nameStyle) } : c)
+        : project.characters
+    };
+  },
+};
+
+// Versions index the migrations, so only whole numbers this editor knows are accepted
+function readVersion(value: unknown, saved: string) {
+  const version = number()(value, 'version', { ignoredFields: [] });
+  if (!Number.isInteger(version) || version < 1) throw new ProjectFormatError('version', `expected a whole number from 1, got ${version}`);
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFormatError('version', `${saved} saved by a newer version of the editor (v${version}, this one reads up to v${PROJECT_VERSION})`);
+  }
+  return version;
+}
+
+function detectVersion(raw: Record<string, any>) {
+  if ('version' in raw) return readVersion(raw.version, 'project was');
+  return Array.isArray(raw.beats) ? 2 : 1;
+}
+
+export function parseProject(raw: unknown): ProjectLoadResult {
+  if (!isRecord(raw)) throw new ProjectFormatError('', `Project file must contain an object, got ${describe(raw)}`);
+  const version = detectVersion(raw);
+
+  const { version: _, ...data } = raw;
+  let project: any = data;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    project = MIGRATIONS[v](project);
+  }
+
+  const ctx: ValidationContext = { ignoredFields: [] };
+  const state = validateState(project, '', ctx);
+  state.languages.forEach((language, i) => {
+    const path = `languages[${i}].code`;
+    if (!isLanguageCode(language.code)) throw new ProjectFormatError(path, `"${language.code}" isn't a language code like en, ja or zh-Hans`);
+    if (state.languages.findIndex(l => l.code === language.code) !== i) throw new ProjectFormatError(path, `"${language.code}" is used by another track`);
+  });
+  return {
+    state: {
+      ...state,
+      currentBeat: Math.min(Math.floor(state.currentBeat), state.beats.length - 1),
+      display: normalizeDisplay(state.display, state.languages)
+    },
+    ignoredFields: ctx.ignoredFields
+  };
+}
+
+export function serializeProject(state: SceneState, replacer?: (key: string, value: any) => any) {
+  return JSON.stringify({ version: PROJECT_VERSION, ...state }, replacer);
+}
+
+export interface TemplateFileResult {
+  templates: UITemplate[];
+  ignoredFields: string[];
+}
+
+export function parseTemplateFile(raw: unknown): TemplateFileResult {
+  if (!isRecord(raw) || !Array.isArray(raw.templates)) {
+    throw new ProjectFormatError('', `Template file must contain an object with a list of templates, got ${describe(raw)}`);
+  }
+  const version = readVersion(raw.version, 'templates were');
+  if (version < FIRST_TEMPLATE_FILE_VERSION) {
+    throw new ProjectFormatError('version', `v${version} is older than the first template file format (v${FIRST_TEMPLATE_FILE_VERSION})`);
+  }
+
+  // Templates take the same migrations as the ones saved in projects
+  let project: any = { savedTemplates: raw.templates };
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    project = MIGRATIONS[v](project);
+  }
+
+  const ctx: ValidationContext = { ignoredFields: [] };
+  const templates = array(validateTemplate, { nonEmpty: true })(project.savedTemplates, 'templates', ctx);
+  templates.forEach((template, i) => {
+    if (templates.findIndex(t => t.id === template.id) !== i) throw new ProjectFormatError(`templates[${i}].id`, `"${template.id}" is used by another template`);
+  });
+  return { templates, ignoredFields: ctx.ignoredFields };
+}
+
+export function serializeTemplateFile(templates: UITemplate[]) {
+  return JSON.stringify({ version: PROJECT_VERSION, templates }, null, 2);
+}
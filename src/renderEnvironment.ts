@@ -0,0 +1,49 @@
+import { loadImage } from './nineSlice';
+
+export type RenderImage = CanvasImageSource & { width: number, height: number };
+
+// What the scene renderer needs from its host, so the same drawing code runs in the
+// editor and in the headless render server.
+export interface RenderEnvironment {
+  createCanvas(width: number, height: number): HTMLCanvasElement;
+  loadImage(src: string): Promise<RenderImage>;
+  // Path from SVG path data, for shapes the preview draws as inline SVG
+  createPath(d: string): Path2D;
+  // Resolves once fonts registered so far can be used for drawing
+  fontsReady(): Promise<void>;
+}
+
+// Decoded images by URL, least recently used first. Uploads and re-crops each add a new data URL,
+// so the oldest are dropped past this count rather than kept for the whole session.
+const IMAGE_CACHE_SIZE = 32;
+const imageCache = new Map<string, Promise<RenderImage>>();
+
+export const browserEnvironment: RenderEnvironment = {
+  createCanvas(width, height) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+  loadImage(src) {
+    let image = imageCache.get(src);
+    if (image) {
+      imageCache.delete(src);
+    } else {
+      image = loadImage(src);
+      const loading = image;
+      loading.catch(() => {
+        if (imageCache.get(src) === loading) imageCache.delete(src);
+      });
+    }
+    imageCache.set(src, image);
+    while (imageCache.size > IMAGE_CACHE_SIZE) imageCache.delete(imageCache.keys().next().value!);
+    return image;
+  },
+  createPath(d) {
+    return new Path2D(d);
+  },
+  async fontsReady() {
+    await document.fonts.ready;
+  },
+};
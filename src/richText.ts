@@ -0,0 +1,237 @@
+import { TextStyle } from './types';
+
+// Ren'Py-style inline markup: {b}, {i}, {shake}, {color=#f00}, {size=+4} / {size=-2} / {size=30},
+// and ruby as {rb}漢字{/rb}{rt}かんじ{/rt}. "{{" is a literal brace.
+
+export interface RichRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  color: string | null;
+  // {size=30} sets sizeAbsolute; {size=+4} adds to sizeDelta
+  sizeAbsolute: number | null;
+  sizeDelta: number;
+  shake: boolean;
+  // Set on {rb} runs once their {rt} has been read
+  ruby: string | null;
+  isRubyBase: boolean;
+}
+
+export interface MarkupIssue {
+  // Range in the source string
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface RichText {
+  runs: RichRun[];
+  issues: MarkupIssue[];
+}
+
+export interface RunStyle extends TextStyle {
+  isBold: boolean;
+}
+
+// Scale of ruby text relative to its base
+export const RUBY_SCALE = 0.5;
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const SIZE_PATTERN = /^[+-]?\d+$/;
+const KNOWN_TAGS = ['b', 'i', 'shake', 'color', 'size', 'rb', 'rt'];
+
+interface OpenTag {
+  name: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const cache = new Map<string, RichText>();
+
+export function parseRichText(source: string): RichText {
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  const runs: RichRun[] = [];
+  const issues: MarkupIssue[] = [];
+  const stack: OpenTag[] = [];
+  let rubyText: string | null = null;
+  let rubyTag: OpenTag | null = null;
+  // The {rb} run that an {rt} may attach to, cleared by anything else in between
+  let pendingBase: { run: RichRun, tag: OpenTag } | null = null;
+  let currentBase: RichRun | null = null;
+
+  const styleFromStack = (): Omit<RichRun, 'text'> => {
+    const style: Omit<RichRun, 'text'> = { bold: false, italic: false, color: null, sizeAbsolute: null, sizeDelta: 0, shake: false, ruby: null, isRubyBase: false };
+    stack.forEach(tag => {
+      if (tag.name === 'b') style.bold = true;
+      else if (tag.name === 'i') style.italic = true;
+      else if (tag.name === 'shake') style.shake = true;
+      else if (tag.name === 'color') style.color = tag.value;
+      else if (tag.name === 'size') {
+        if (/^[+-]/.test(tag.value)) style.sizeDelta += parseInt(tag.value, 10);
+        else {
+          style.sizeAbsolute = parseInt(tag.value, 10);
+          style.sizeDelta = 0;
+        }
+      } else if (tag.name === 'rb') style.isRubyBase = true;
+    });
+    return style;
+  };
+
+  const unresolvedBase = () => {
+    if (pendingBase) issues.push({ start: pendingBase.tag.start, end: pendingBase.tag.end, message: 'Ruby base has no {rt} right after it' });
+    pendingBase = null;
+  };
+
+  const appendText = (text: string) => {
+    if (rubyText !== null) {
+      rubyText += text;
+      return;
+    }
+    unresolvedBase();
+    const style = styleFromStack();
+    const last = runs[runs.length - 1];
+    const sameStyle = last && !style.isRubyBase && !last.isRubyBase && (Object.keys(style) as (keyof typeof style)[]).every(key => last[key] === style[key]);
+    if (sameStyle) {
+      last.text += text;
+    } else if (style.isRubyBase && currentBase) {
+      currentBase.text += text;
+    } else {
+      const run = { ...style, text };
+      runs.push(run);
+      if (style.isRubyBase) currentBase = run;
+    }
+  };
+
+  const openTag = (tag: OpenTag) => {
+    const issue = (message: string) => issues.push({ start: tag.start, end: tag.end, message });
+    if (!KNOWN_TAGS.includes(tag.name)) return issue(`Unknown tag {${tag.name}}`);
+    const takesValue = tag.name === 'color' || tag.name === 'size';
+    if (takesValue && !tag.value) return issue(`{${tag.name}} needs a value, like {${tag.name}=${tag.name === 'color' ? '#ff0000' : '+4'}}`);
+    if (!takesValue && tag.value) return issue(`{${tag.name}} doesn't take a value`);
+    if (tag.name === 'color' && !COLOR_PATTERN.test(tag.value)) return issue(`"${tag.value}" isn't a hex color like #f00 or #ff0000`);
+    if (tag.name === 'size' && !SIZE_PATTERN.test(tag.value)) return issue(`"${tag.value}" isn't a size like 30, +4 or -2`);
+    if ((tag.name === 'rb' || tag.name === 'rt') && (stack.some(t => t.name === 'rb') || rubyText !== null)) {
+      return issue(`{${tag.name}} can't be nested inside ruby`);
+    }
+    if (tag.name === 'rt') {
+      if (!pendingBase) issue('Ruby text needs an {rb}…{/rb} base right before it; shown as plain text');
+      rubyTag = tag;
+      rubyText = '';
+      return;
+    }
+    // Styling tags inside {rt} are accepted but don't separate the base from its ruby
+    if (rubyText === null) unresolvedBase();
+    if (tag.name === 'rb') currentBase = null;
+    stack.push(tag);
+  };
+
+  const closeTag = (tag: OpenTag) => {
+    if (tag.name === 'rt' && rubyText !== null) {
+      const text = rubyText;
+      rubyText = null;
+      if (pendingBase) {
+        pendingBase.run.ruby = text;
+        pendingBase = null;
+      } else {
+        appendText(text);
+      }
+      rubyTag = null;
+      return;
+    }
+    const index = stack.map(t => t.name).lastIndexOf(tag.name);
+    if (index === -1) {
+      issues.push({ start: tag.start, end: tag.end, message: `{/${tag.name}} has no matching {${tag.name}}` });
+      return;
+    }
+    stack.slice(index + 1).forEach(inner => {
+      issues.push({ start: inner.start, end: inner.end, message: `{${inner.name}} is closed by {/${tag.name}} before its own {/${inner.name}}` });
+    });
+    const [opened] = stack.splice(index);
+    if (opened.name === 'rb') {
+      unresolvedBase();
+      pendingBase = currentBase ? { run: currentBase, tag: opened } : null;
+      currentBase = null;
+    }
+  };
+
+  let text = '';
+  const flush = () => {
+    if (text) appendText(text);
+    text = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '{' && source[i + 1] === '{') {
+      text += '{';
+      i += 2;
+      continue;
+    }
+    if (char !== '{') {
+      text += char;
+      i++;
+      continue;
+    }
+    const end = source.indexOf('}', i);
+    const body = end === -1 ? '' : source.slice(i + 1, end);
+    if (end === -1 || body.includes('{')) {
+      issues.push({ start: i, end: end === -1 ? source.length : i + 1, message: 'Unclosed "{"; write "{{" for a literal brace' });
+      text += char;
+      i++;
+      continue;
+    }
+    flush();
+    const closing = body.startsWith('/');
+    const [name, ...value] = (closing ? body.slice(1) : body).split('=');
+    const tag = { name: name.trim().toLowerCase(), value: value.join('=').trim(), start: i, end: end + 1 };
+    if (closing) closeTag(tag);
+    else openTag(tag);
+    i = end + 1;
+  }
+  flush();
+
+  if (rubyTag !== null) {
+    const tag: OpenTag = rubyTag;
+    issues.push({ start: tag.start, end: tag.end, message: '{rt} is never closed' });
+    const leftover = rubyText ?? '';
+    rubyText = null;
+    appendText(leftover);
+  }
+  unresolvedBase();
+  stack.forEach(tag => issues.push({ start: tag.start, end: tag.end, message: `{${tag.name}} is never closed` }));
+
+  const result = { runs, issues: issues.sort((a, b) => a.start - b.start) };
+  // Bounded so typing into a long script doesn't grow the cache forever
+  if (cache.size > 500) cache.clear();
+  cache.set(source, result);
+  return result;
+}
+
+// The text as it reads on screen, without tags or ruby; typewriter timing counts these characters
+export function plainText(source: string) {
+  return parseRichText(source).runs.map(run => run.text).join('');
+}
+
+// Position of the first {shake} character among the ones plainText counts, or null when nothing shakes
+export function firstShakeIndex(source: string) {
+  let index = 0;
+  for (const run of parseRichText(source).runs) {
+    if (run.shake && run.text) return index;
+    index += Array.from(run.text).length;
+  }
+  return null;
+}
+
+export function resolveRunStyle(run: RichRun, base: TextStyle): RunStyle {
+  return {
+    ...base,
+    fontSize: Math.max(1, (run.sizeAbsolute ?? base.fontSize) + run.sizeDelta),
+    color: run.color ?? base.color,
+    isItalic: base.isItalic || run.italic,
+    isBold: run.bold,
+  };
+}
@@ -0,0 +1,38 @@
+import { SceneBeat } from './types';
+
+// How many options a choice menu can hold
+export const CHOICE_OPTION_LIMITS = { min: 2, max: 6 };
+
+export function generateId(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createBeat(overrides: Partial<SceneBeat> = {}): SceneBeat {
+  return {
+    id: generateId('beat'),
+    characterName: '',
+    text: {},
+    image: null,
+    background: null,
+    templateId: null,
+    sprites: [],
+    choiceMenu: null,
+    backlog: null,
+    nvlPageBreak: false,
+    ...overrides
+  };
+}
+
+export function resolveBeatImage(beats: SceneBeat[], index: number): string | null {
+  for (let i = index; i >= 0; i--) {
+    if (beats[i].image) return beats[i].image;
+  }
+  return null;
+}
+
+export function hexToRgba(hex: string, alpha: number) {
+  const r = parseInt(hex.slice(1, 3), 16) || 0;
+  const g = parseInt(hex.slice(3, 5), 16) || 0;
+  const b = parseInt(hex.slice(5, 7), 16) || 0;
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
@@ -0,0 +1,819 @@
+import { BackgroundFilter, BoxStyle, ExportSize, NineSliceFrame, SceneBeat, SceneState, TextStyle, UITemplate } from './types';
+import {
+  BACKLOG_COLUMN_GAP, BACKLOG_SCROLLBAR_GAP, BACKLOG_SCROLLBAR_WIDTH, BACKLOG_THUMB_ALPHA, BACKLOG_TRACK_ALPHA, BOX_DECORATIONS, BOX_MARGIN, CHOICE_PADDING_X, CHOICE_PADDING_Y, CONTENT_INSET, GRADIENT_BAND_FADE,
+  INDICATOR_GAP, INDICATOR_SCALE, LINE_HEIGHT, PREVIEW_REFERENCE_WIDTH, SPRITE_DIM_AMOUNT, SPRITE_HEIGHT, TEXT_BLOCK_GAP,
+  TEXT_OUTLINE_OFFSETS, namePlatePlacement, namePlatePadding, sceneHeight, textboxPadding
+} from './layout';
+import { resolveBeatTemplate } from './templates';
+import { hexToRgba, resolveBeatImage } from './scene';
+import { buildLineTiming, lineRevealAt } from './typewriter';
+import { drawNineSlice } from './nineSlice';
+import { RenderEnvironment, browserEnvironment } from './renderEnvironment';
+import { RUBY_SCALE } from './richText';
+import { nvlLineOpacity, nvlPageBeats } from './nvl';
+import { HUD_BADGE_BACKGROUND, HUD_BADGE_PADDING_X, HUD_BADGE_PADDING_Y, HUD_ICON_OUTLINE, HUD_ICON_STROKE, HUD_ICON_VIEWBOX, QUICK_MENU_BUTTONS, hudBadgeLabel, hudBadgeSide, hudPlacement } from './hud';
+import { VIGNETTE_INNER_STOP, backgroundFilterCss, backgroundFilterStages, backgroundPlacement, resolveBeatBackground, vignetteColors } from './background';
+import { displayedLines, languageTextStyle, speakerName, trackText } from './languages';
+import { characterNameStyle, findCharacter } from './characters';
+import { WrappedLine, fontExtents, fontString, layoutText, linesHeight } from './textLayout';
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+  // Typewriter playback time in ms; null or omitted draws the whole line
+  revealTime?: number | null;
+  // Whether the continue indicator is lit once the line has finished
+  indicatorVisible?: boolean;
+  // Custom font families that have been registered and can be drawn
+  availableFonts?: Set<string>;
+  // Defaults to the browser DOM
+  environment?: RenderEnvironment;
+}
+
+export interface TextBlock {
+  style: TextStyle;
+  lines: WrappedLine[];
+  visible: number | null;
+  indicator: boolean;
+}
+
+export interface NamePlateLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Where the name goes inside the plate
+  textX: number;
+  textY: number;
+  textWidth: number;
+}
+
+export interface TextboxLayout {
+  boxX: number;
+  boxY: number;
+  boxWidth: number;
+  boxHeight: number;
+  contentX: number;
+  // Top of the current beat's first text block, and the height of its name and lines
+  contentY: number;
+  contentHeight: number;
+  contentWidth: number;
+  sceneHeight: number;
+  name: TextBlock | null;
+  dialogue: TextBlock | null;
+  secondary: TextBlock | null;
+  // null when the name is set inline or its plate is hidden
+  plate: NamePlateLayout | null;
+  // Earlier lines still on an NVL page, oldest first; empty in ADV layouts
+  page: PageEntry[];
+  // Earlier lines on the NVL page that no longer fit
+  droppedLines: number;
+}
+
+type EntryBlocks = Pick<TextboxLayout, 'name' | 'dialogue' | 'secondary'>;
+
+export interface PageEntry extends EntryBlocks {
+  beatIndex: number;
+  y: number;
+  opacity: number;
+}
+
+export interface BacklogEntryLayout {
+  id: string;
+  // Relative to the top of the content area, after scrolling
+  y: number;
+  height: number;
+  name: TextBlock | null;
+  dialogue: TextBlock | null;
+  // Where each block sits, relative to the entry
+  nameX: number;
+  nameWidth: number;
+  dialogueX: number;
+  dialogueY: number;
+  dialogueWidth: number;
+}
+
+export interface BacklogLayout {
+  panelX: number;
+  panelY: number;
+  panelWidth: number;
+  panelHeight: number;
+  // The clipped area entries scroll in
+  contentX: number;
+  contentY: number;
+  contentWidth: number;
+  contentHeight: number;
+  entries: BacklogEntryLayout[];
+  // How far the entries can scroll, from the newest back to the oldest
+  scrollRange: number;
+  // Scrollbar thumb within the content area's height; null when everything fits or the style hides it
+  thumb: { x: number, y: number, height: number } | null;
+}
+
+type Context = CanvasRenderingContext2D;
+
+// How far {shake} text moves, in reference pixels
+const SHAKE_AMPLITUDE = 1.5;
+
+export const ASPECT_RATIOS = [
+  { label: '16:9 (PC, Switch)', width: 16, height: 9 },
+  { label: '16:10 (Steam Deck)', width: 16, height: 10 },
+  { label: '4:3', width: 4, height: 3 },
+  { label: '9:16 (Mobile Portrait)', width: 9, height: 16 },
+];
+
+export const EXPORT_RESOLUTIONS = [
+  { label: '1280 × 720 (HD, Switch handheld)', width: 1280, height: 720 },
+  { label: '1920 × 1080 (Full HD, Switch docked)', width: 1920, height: 1080 },
+  { label: '2560 × 1440 (QHD)', width: 2560, height: 1440 },
+  { label: '1280 × 800 (Steam Deck)', width: 1280, height: 800 },
+  { label: '1920 × 1200 (WUXGA)', width: 1920, height: 1200 },
+  { label: '1024 × 768 (XGA)', width: 1024, height: 768 },
+  { label: '1600 × 1200 (UXGA)', width: 1600, height: 1200 },
+  { label: '720 × 1280 (Mobile HD)', width: 720, height: 1280 },
+  { label: '1080 × 1920 (Mobile Full HD)', width: 1080, height: 1920 },
+];
+
+export function aspectRatioOf(size: ExportSize) {
+  return ASPECT_RATIOS.find(r => size.width * r.height === size.height * r.width) ?? null;
+}
+
+function roundedRect(ctx: Context, x: number, y: number, width: number, height: number, radius: number) {
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+}
+
+class SceneRenderer {
+  private readonly scale: number;
+  private readonly sceneWidth = PREVIEW_REFERENCE_WIDTH;
+  private readonly sceneHeight: number;
+
+  constructor(
+    private readonly ctx: Context,
+    private readonly state: SceneState,
+    private readonly beatIndex: number,
+    private readonly options: RenderOptions
+  ) {
+    this.scale = options.width / PREVIEW_REFERENCE_WIDTH;
+    this.sceneHeight = sceneHeight(options.width, options.height);
+  }
+
+  private get beat(): SceneBeat {
+    return this.state.beats[this.beatIndex];
+  }
+
+  private get template(): UITemplate {
+    return resolveBeatTemplate(this.state, this.beat);
+  }
+
+  private get environment() {
+    return this.options.environment ?? browserEnvironment;
+  }
+
+  private get fonts() {
+    return this.options.availableFonts ?? new Set<string>();
+  }
+
+  async render() {
+    const { ctx } = this;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, this.options.width, this.options.height);
+    // Everything below is drawn in reference pixels
+    ctx.setTransform(this.scale, 0, 0, this.scale, 0, 0);
+
+    await this.drawBackground();
+    await this.drawSprites();
+    // The history screen replaces the textbox, choices and quick menu
+    if (this.beat.backlog) {
+      this.drawBacklog();
+      return;
+    }
+    const menu = this.beat.choiceMenu;
+    if (!menu || menu.showTextbox) await this.drawTextbox();
+    if (menu) this.drawChoices();
+    this.drawHud();
+  }
+
+  private async drawBackground() {
+    const src = resolveBeatImage(this.state.beats, this.beatIndex);
+    if (!src) return;
+    const image = await this.environment.loadImage(src);
+    const view = resolveBeatBackground(this.state.beats, this.beatIndex);
+    const place = backgroundPlacement(this.state.imageScale, view, image, this.sceneWidth, this.sceneHeight, this.scale);
+    const [first, ...later] = backgroundFilterStages(view.filters);
+
+    // Later stages filter everything painted before them, so the background is built on its own layer
+    const { width, height } = this.options;
+    const layer = this.environment.createCanvas(width, height);
+    const ctx = layer.getContext('2d')!;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.setTransform(this.scale, 0, 0, this.scale, 0, 0);
+    ctx.save();
+    ctx.translate(place.centerX, place.centerY);
+    ctx.rotate(place.rotation * Math.PI / 180);
+    // Filter lengths are in output pixels; the transform doesn't scale them
+    ctx.filter = backgroundFilterCss(first?.css ?? [], this.scale);
+    ctx.drawImage(image, place.sx, place.sy, place.sw, place.sh, -place.width / 2, -place.height / 2, place.width, place.height);
+    ctx.restore();
+    first?.overlays.forEach(filter => this.drawBackgroundOverlay(ctx, filter));
+
+    later.forEach(stage => {
+      const copy = this.environment.createCanvas(width, height);
+      copy.getContext('2d')!.drawImage(layer, 0, 0);
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      ctx.filter = backgroundFilterCss(stage.css, this.scale);
+      ctx.drawImage(copy, 0, 0);
+      ctx.restore();
+      stage.overlays.forEach(filter => this.drawBackgroundOverlay(ctx, filter));
+    });
+
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.drawImage(layer, 0, 0);
+    this.ctx.restore();
+  }
+
+  private drawBackgroundOverlay(ctx: CanvasRenderingContext2D, filter: BackgroundFilter) {
+    ctx.save();
+    if (filter.type === 'tint') {
+      ctx.globalCompositeOperation = 'multiply';
+      ctx.globalAlpha = filter.amount / 100;
+      ctx.fillStyle = filter.color;
+      ctx.fillRect(0, 0, this.sceneWidth, this.sceneHeight);
+    } else {
+      // Matches CSS's farthest-corner ellipse: a circle through the corners, squashed to the scene's aspect
+      const radius = this.sceneWidth / Math.SQRT2;
+      ctx.translate(this.sceneWidth / 2, this.sceneHeight / 2);
+      ctx.scale(1, this.sceneHeight / this.sceneWidth);
+      const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+      const [inner, outer] = vignetteColors(filter);
+      gradient.addColorStop(VIGNETTE_INNER_STOP, inner);
+      gradient.addColorStop(1, outer);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(-radius, -radius, radius * 2, radius * 2);
+    }
+    ctx.restore();
+  }
+
+  private async drawSprites() {
+    const { ctx } = this;
+    for (const sprite of this.beat.sprites) {
+      const character = this.state.characters.find(c => c.id === sprite.characterId);
+      const expression = character?.expressions.find(ex => ex.name === sprite.expression) ?? character?.expressions[0];
+      if (!character || !expression) continue;
+      const image = await this.environment.loadImage(expression.image);
+      const height = this.sceneHeight * SPRITE_HEIGHT * sprite.scale;
+      const width = image.width * (height / image.height);
+      const x = (sprite.x / 100) * this.sceneWidth - width / 2;
+      const y = this.sceneHeight - (sprite.y / 100) * this.sceneHeight - height;
+      const isSpeaking = character.name.trim().toLowerCase() === this.beat.characterName.trim().toLowerCase();
+
+      let source: CanvasImageSource = image;
+      if (sprite.dimWhenSilent && !isSpeaking) {
+        // Same result as CSS brightness(0.5): black laid over the sprite's own pixels
+        const dimmed = this.environment.createCanvas(image.width, image.height);
+        const dctx = dimmed.getContext('2d')!;
+        dctx.drawImage(image, 0, 0);
+        dctx.globalCompositeOperation = 'source-atop';
+        dctx.fillStyle = `rgba(0, 0, 0, ${SPRITE_DIM_AMOUNT})`;
+        dctx.fillRect(0, 0, image.width, image.height);
+        source = dimmed;
+      }
+
+      ctx.save();
+      if (sprite.flipped) {
+        ctx.translate(x + width / 2, 0);
+        ctx.scale(-1, 1);
+        ctx.translate(-(x + width / 2), 0);
+      }
+      ctx.drawImage(source, x, y, width, height);
+      ctx.restore();
+    }
+  }
+
+  private buildBlock(text: string, style: TextStyle, maxWidth: number, visible: number | null, indicator: boolean): TextBlock | null {
+    if (!text) return null;
+    return { style, lines: layoutText(this.ctx, text, style, maxWidth, this.fonts), visible, indicator };
+  }
+
+  private blockHeight(block: TextBlock) {
+    return linesHeight(block.lines) + TEXT_BLOCK_GAP;
+  }
+
+  private drawTextLine(text: string, style: TextStyle, x: number, y: number) {
+    const { ctx } = this;
+    if (style.hasOutline) {
+      ctx.fillStyle = '#000000';
+      TEXT_OUTLINE_OFFSETS.forEach(([dx, dy]) => ctx.fillText(text, x + dx, y + dy));
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(text, x, y);
+  }
+
+  // {shake} only moves while a line is animating; stills show the text at rest
+  private shakeOffset(index: number) {
+    const time = this.options.revealTime;
+    if (time === null || time === undefined) return [0, 0];
+    return [Math.sin(time / 40 + index * 2.1) * SHAKE_AMPLITUDE, Math.cos(time / 33 + index * 1.7) * SHAKE_AMPLITUDE];
+  }
+
+  private drawBlock(block: TextBlock, x: number, y: number, width: number, align: BoxStyle['textAlign']) {
+    const { ctx } = this;
+    ctx.textAlign = 'left';
+    let lineTop = y;
+    let indicatorAt: { x: number, y: number } | null = null;
+
+    block.lines.forEach((line, index) => {
+      const lineX = align === 'left' ? x : align === 'center' ? x + (width - line.width) / 2 : x + width - line.width;
+      const baseline = lineTop + line.baseline;
+      line.segments.forEach(segment => {
+        const chars = Array.from(segment.text);
+        const count = block.visible === null ? chars.length : Math.max(0, Math.min(chars.length, block.visible - segment.start));
+        if (count === 0) return;
+        ctx.font = fontString(segment.style, this.fonts);
+        ctx.textBaseline = 'alphabetic';
+        const segmentX = lineX + segment.x;
+        if (segment.run.shake) {
+          let charX = segmentX;
+          chars.slice(0, count).forEach((char, i) => {
+            const [dx, dy] = this.shakeOffset(segment.start + i);
+            this.drawTextLine(char, segment.style, charX + dx, baseline + dy);
+            charX += ctx.measureText(char).width;
+          });
+        } else {
+          this.drawTextLine(chars.slice(0, count).join(''), segment.style, segmentX, baseline);
+        }
+        if (segment.run.ruby) {
+          // Centered above the base's line box, like the preview's absolutely positioned ruby
+          const { ascent, descent } = fontExtents(ctx, segment.style, this.fonts);
+          const boxTop = baseline - (ascent - descent) / 2 - segment.style.fontSize * LINE_HEIGHT / 2;
+          const rubySize = segment.style.fontSize * RUBY_SCALE;
+          ctx.font = fontString(segment.style, this.fonts, RUBY_SCALE);
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          this.drawTextLine(segment.run.ruby, segment.style, segmentX + segment.width / 2, boxTop - rubySize * LINE_HEIGHT / 2);
+          ctx.textAlign = 'left';
+        }
+      });
+      if (index === block.lines.length - 1) {
+        indicatorAt = { x: lineX + line.width + INDICATOR_GAP, y: lineTop + line.height / 2 };
+      }
+      lineTop += line.height;
+    });
+
+    if (block.indicator && indicatorAt) {
+      const { x: ix, y: iy } = indicatorAt;
+      ctx.font = fontString(block.style, this.fonts, INDICATOR_SCALE);
+      ctx.textBaseline = 'middle';
+      this.drawTextLine('▼', block.style, ix, iy);
+    }
+  }
+
+  // The template's name style for the primary track, with the speaker's roster overrides on top
+  private speakerNameStyle(name: string) {
+    const { template } = this;
+    const style = languageTextStyle(template.nameStyle, template, this.state.display.primary);
+    return characterNameStyle(style, findCharacter(this.state.characters, name));
+  }
+
+  // A beat's name and lines; only the current beat's line animates
+  private textBlocks(beat: SceneBeat, contentWidth: number, nameWidth: number, live: boolean): EntryBlocks {
+    const { template, options } = this;
+    const { display } = this.state;
+    const lines = displayedLines(beat.text, display);
+    const timing = buildLineTiming(lines.primary, lines.secondary, this.state.typewriter);
+    const reveal = !live || options.revealTime === null || options.revealTime === undefined ? null : lineRevealAt(timing, options.revealTime);
+    // Stills have no reveal; the HUD can still show the indicator as if the line had finished
+    const showIndicator = reveal !== null ? reveal.finished && options.indicatorVisible !== false : live && template.hud.stillIndicator;
+    return {
+      name: this.buildBlock(speakerName(this.state, beat.characterName, display.primary), this.speakerNameStyle(beat.characterName), nameWidth, null, false),
+      dialogue: this.buildBlock(lines.primary, languageTextStyle(template.dialogueStyle, template, display.primary), contentWidth, reveal && reveal.dialogue, showIndicator && !lines.secondary),
+      secondary: this.buildBlock(lines.secondary, languageTextStyle(template.secondaryDialogueStyle, template, display.secondary), contentWidth, reveal && reveal.secondary, showIndicator),
+    };
+  }
+
+  private entryHeight(entry: EntryBlocks) {
+    return [entry.name, entry.dialogue, entry.secondary].reduce((sum, block) => sum + (block ? this.blockHeight(block) : 0), 0);
+  }
+
+  // Where the textbox and its text blocks go, shared by drawing and overflow checks
+  layoutTextbox(): TextboxLayout {
+    const { template } = this;
+    const box = template.boxStyle;
+    const plateStyle = template.namePlate;
+    const limits = template.textLimits;
+    const W = this.sceneWidth;
+    const H = this.sceneHeight;
+    const isGradient = box.type === 'gradient';
+    const isNvl = box.layout === 'nvl';
+
+    // Gradients span the scene's width; NVL pages sit inside their margin and use its full width for text
+    const boxX = isGradient ? 0 : isNvl ? W * (box.nvlMargin / 100) : BOX_MARGIN;
+    const boxWidth = W - boxX * 2;
+    const padding = textboxPadding(box);
+    const inset = isNvl ? 0 : CONTENT_INSET;
+    const areaX = boxX + padding.left + inset;
+    const areaWidth = boxWidth - padding.left - padding.right - inset * 2;
+    // Text wraps in a narrower column when the template limits its width, aligned like the text
+    const contentWidth = areaWidth * (limits.maxWidth / 100);
+    const contentX = areaX + (box.textAlign === 'left' ? 0 : box.textAlign === 'center' ? (areaWidth - contentWidth) / 2 : areaWidth - contentWidth);
+
+    // NVL pages set every name inline
+    const hasPlate = !isNvl && plateStyle.anchor !== 'inline' && (!!this.beat.characterName.trim() || !plateStyle.hideWhenEmpty);
+    const plateInsets = hasPlate ? namePlatePadding(plateStyle) : null;
+    const { name, dialogue, secondary } = this.textBlocks(this.beat, contentWidth, plateInsets ? contentWidth - plateInsets.left - plateInsets.right : contentWidth, true);
+    const { vertical, side } = namePlatePlacement(plateStyle);
+
+    let plateSize: { width: number, height: number, textWidth: number } | null = null;
+    if (plateInsets) {
+      const textWidth = Math.max(plateStyle.minWidth, ...(name ? name.lines.map(line => line.width) : [0]));
+      const textHeight = name ? linesHeight(name.lines) : template.nameStyle.fontSize * LINE_HEIGHT;
+      plateSize = { width: textWidth + plateInsets.left + plateInsets.right, height: textHeight + plateInsets.top + plateInsets.bottom, textWidth };
+    }
+    // Plates above the box or on its edge take no room inside it
+    const nameHeight = plateSize
+      ? (vertical === 'inset' ? plateSize.height + TEXT_BLOCK_GAP : 0)
+      : name ? this.blockHeight(name) : 0;
+    const contentHeight = nameHeight + (dialogue ? this.blockHeight(dialogue) : 0) + (secondary ? this.blockHeight(secondary) : 0);
+    const edge = isGradient ? 0 : W * (box.padding / 100);
+    const boxHeight = isNvl ? H - (isGradient ? 0 : boxX * 2) : padding.top + contentHeight + padding.bottom;
+    const boxY = isNvl ? (isGradient ? 0 : boxX)
+      : box.layout === 'adv-top' ? edge
+      : box.layout === 'centered' ? (H - boxHeight) / 2
+      : H - edge - boxHeight;
+    let contentY = boxY + padding.top;
+
+    // Earlier lines stack down from the top of an NVL page; the oldest scroll off once it is full
+    const page: PageEntry[] = [];
+    let droppedLines = 0;
+    if (isNvl) {
+      const earlier = nvlPageBeats(this.state, this.beatIndex)
+        .map(i => ({ beatIndex: i, ...this.textBlocks(this.state.beats[i], contentWidth, contentWidth, false) }))
+        .filter(entry => entry.name || entry.dialogue || entry.secondary);
+      let room = boxY + boxHeight - padding.bottom - contentY - contentHeight;
+      const kept: typeof earlier = [];
+      for (let i = earlier.length - 1; i >= 0; i--) {
+        const height = this.entryHeight(earlier[i]) + box.nvlSpacing;
+        if (height > room) break;
+        room -= height;
+        kept.unshift(earlier[i]);
+      }
+      droppedLines = earlier.length - kept.length;
+      kept.forEach((entry, i) => {
+        page.push({ ...entry, y: contentY, opacity: nvlLineOpacity(box.nvlFade, kept.length - i) });
+        contentY += this.entryHeight(entry) + box.nvlSpacing;
+      });
+    }
+
+    let plate: NamePlateLayout | null = null;
+    if (plateSize && plateInsets) {
+      const x = contentX + (side === 'left' ? 0 : side === 'center' ? (contentWidth - plateSize.width) / 2 : contentWidth - plateSize.width) + plateStyle.offsetX;
+      const top = vertical === 'above' ? boxY - plateSize.height : vertical === 'edge' ? boxY - plateSize.height / 2 : contentY;
+      const y = top + plateStyle.offsetY;
+      plate = { x, y, width: plateSize.width, height: plateSize.height, textX: x + plateInsets.left, textY: y + plateInsets.top, textWidth: plateSize.textWidth };
+    }
+    return {
+      boxX, boxY, boxWidth, boxHeight, contentX, contentWidth, contentY, contentHeight,
+      sceneHeight: H,
+      name, dialogue, secondary, plate, page, droppedLines
+    };
+  }
+
+  private async drawTextbox() {
+    const { ctx, template } = this;
+    const box = template.boxStyle;
+    const decoration = BOX_DECORATIONS[box.type];
+    const border = decoration.borderWidth;
+    const { boxX, boxY, boxWidth, boxHeight, contentX, contentY, contentWidth, name, dialogue, secondary, plate, page } = this.layoutTextbox();
+    const fill = hexToRgba(box.backgroundColor, box.opacity / 100);
+
+    if (box.type === 'gradient') {
+      if (box.layout === 'nvl') {
+        ctx.fillStyle = fill;
+      } else {
+        // Fades out towards the scene from the edge the box is anchored to
+        const gradient = box.layout === 'adv-top'
+          ? ctx.createLinearGradient(0, boxY, 0, boxY + boxHeight)
+          : ctx.createLinearGradient(0, boxY + boxHeight, 0, boxY);
+        if (box.layout === 'centered') {
+          gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+          gradient.addColorStop(GRADIENT_BAND_FADE, fill);
+          gradient.addColorStop(1 - GRADIENT_BAND_FADE, fill);
+          gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        } else {
+          gradient.addColorStop(0, fill);
+          gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        }
+        ctx.fillStyle = gradient;
+      }
+      ctx.fillRect(boxX, boxY, boxWidth, boxHeight);
+    } else if (box.type === 'image') {
+      if (box.frame) await this.drawFrame(box.frame, boxX, boxY, boxWidth, boxHeight, box.opacity / 100);
+    } else {
+      ctx.save();
+      if (decoration.glow) {
+        ctx.shadowBlur = decoration.glow.blur * this.scale;
+        ctx.shadowColor = decoration.glow.color;
+      }
+      roundedRect(ctx, boxX + border / 2, boxY + border / 2, boxWidth - border, boxHeight - border, decoration.radius);
+      ctx.fillStyle = fill;
+      ctx.fill();
+      if (border > 0) {
+        ctx.lineWidth = border;
+        ctx.strokeStyle = decoration.borderColor;
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    page.forEach(entry => {
+      ctx.save();
+      ctx.globalAlpha = entry.opacity;
+      this.drawEntry(entry, contentX, entry.y, contentWidth, box.textAlign);
+      ctx.restore();
+    });
+    if (plate) {
+      await this.drawNamePlate(plate, name);
+      const y = namePlatePlacement(template.namePlate).vertical === 'inset' ? contentY + plate.height + TEXT_BLOCK_GAP : contentY;
+      this.drawEntry({ name: null, dialogue, secondary }, contentX, y, contentWidth, box.textAlign);
+    } else {
+      this.drawEntry({ name, dialogue, secondary }, contentX, contentY, contentWidth, box.textAlign);
+    }
+  }
+
+  // Name, line and secondary line stacked in the text column
+  private drawEntry(entry: EntryBlocks, x: number, y: number, width: number, align: BoxStyle['textAlign']) {
+    for (const block of [entry.name, entry.dialogue, entry.secondary]) {
+      if (!block) continue;
+      this.drawBlock(block, x, y, width, align);
+      y += this.blockHeight(block);
+    }
+  }
+
+  private async drawNamePlate(plate: NamePlateLayout, name: TextBlock | null) {
+    const { ctx } = this;
+    const style = this.template.namePlate;
+    if (style.type === 'image') {
+      if (style.frame) await this.drawFrame(style.frame, plate.x, plate.y, plate.width, plate.height, style.opacity / 100);
+    } else if (style.type === 'solid') {
+      const border = style.borderWidth;
+      ctx.save();
+      roundedRect(ctx, plate.x + border / 2, plate.y + border / 2, plate.width - border, plate.height - border, style.borderRadius);
+      ctx.fillStyle = hexToRgba(style.backgroundColor, style.opacity / 100);
+      ctx.fill();
+      if (border > 0) {
+        ctx.lineWidth = border;
+        ctx.strokeStyle = style.borderColor;
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+    if (name) this.drawBlock(name, plate.textX, plate.textY, plate.textWidth, 'center');
+  }
+
+  // Nine-slices are drawn in output pixels so their edges land on whole pixels
+  private async drawFrame(frame: NineSliceFrame, x: number, y: number, width: number, height: number, opacity: number) {
+    const { ctx } = this;
+    const image = await this.environment.loadImage(frame.image);
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = opacity;
+    drawNineSlice(ctx, image, frame, x, y, width, height, this.scale);
+    ctx.restore();
+  }
+
+  private drawChoices() {
+    const { ctx, template } = this;
+    const menu = this.beat.choiceMenu;
+    if (!menu) return;
+    const choice = template.choiceStyle;
+    const style = languageTextStyle(template.choiceTextStyle, template, this.state.display.primary);
+    const buttonWidth = this.sceneWidth * (choice.width / 100);
+    const textWidth = buttonWidth - CHOICE_PADDING_X * 2 - choice.borderWidth * 2;
+
+    const buttons = menu.options.map(option => {
+      const lines: WrappedLine[] = layoutText(ctx, trackText(option.text, this.state.display.primary), style, textWidth, this.fonts);
+      return { option, lines, height: linesHeight(lines) + CHOICE_PADDING_Y * 2 + choice.borderWidth * 2 };
+    });
+    const totalHeight = buttons.reduce((sum, b) => sum + b.height, 0) + choice.spacing * Math.max(buttons.length - 1, 0);
+    const x = (this.sceneWidth - buttonWidth) / 2;
+    let y = this.sceneHeight * (choice.verticalPosition / 100) - totalHeight / 2;
+
+    buttons.forEach(({ option, lines, height }) => {
+      const color = option.state === 'hover' ? choice.hoverColor : option.state === 'chosen' ? choice.chosenColor : choice.buttonColor;
+      ctx.save();
+      ctx.globalAlpha = option.state === 'disabled' ? choice.disabledOpacity / 100 : 1;
+      const inset = choice.borderWidth / 2;
+      roundedRect(ctx, x + inset, y + inset, buttonWidth - choice.borderWidth, height - choice.borderWidth, choice.borderRadius);
+      ctx.fillStyle = hexToRgba(color, choice.buttonOpacity / 100);
+      ctx.fill();
+      if (choice.borderWidth > 0) {
+        ctx.lineWidth = choice.borderWidth;
+        ctx.strokeStyle = choice.borderColor;
+        ctx.stroke();
+      }
+      this.drawBlock(
+        { style, lines, visible: null, indicator: false },
+        x + choice.borderWidth + CHOICE_PADDING_X,
+        y + choice.borderWidth + CHOICE_PADDING_Y,
+        textWidth,
+        'center'
+      );
+      ctx.restore();
+      y += height + choice.spacing;
+    });
+  }
+
+  // Entries scroll inside the panel; the newest sit at the bottom when the history is taller than it
+  layoutBacklog(): BacklogLayout {
+    const { template } = this;
+    const style = template.backlogStyle;
+    const { primary } = this.state.display;
+    const entries = this.beat.backlog?.entries ?? [];
+    const panelWidth = this.sceneWidth * style.width / 100;
+    const panelHeight = this.sceneHeight * style.height / 100;
+    const panelX = (this.sceneWidth - panelWidth) / 2;
+    const panelY = (this.sceneHeight - panelHeight) / 2;
+    const inset = style.borderWidth + style.padding;
+    const contentX = panelX + inset;
+    const contentY = panelY + inset;
+    const contentHeight = Math.max(panelHeight - inset * 2, 0);
+    const contentWidth = Math.max(panelWidth - inset * 2 - (style.scrollbar ? BACKLOG_SCROLLBAR_WIDTH + BACKLOG_SCROLLBAR_GAP : 0), 0);
+    const columns = style.entryLayout === 'columns';
+    const nameColumn = columns ? contentWidth * style.nameColumnWidth / 100 : 0;
+    const nameWidth = columns ? Math.max(nameColumn - BACKLOG_COLUMN_GAP, 0) : contentWidth;
+    const dialogueWidth = contentWidth - nameColumn;
+    const dialogueStyle = languageTextStyle(template.dialogueStyle, template, primary);
+
+    let y = 0;
+    const laidOut = entries.map(entry => {
+      const name = this.buildBlock(speakerName(this.state, entry.characterName, primary), this.speakerNameStyle(entry.characterName), nameWidth, null, false);
+      const dialogue = this.buildBlock(trackText(entry.text, primary), dialogueStyle, dialogueWidth, null, false);
+      const nameHeight = name ? this.blockHeight(name) : 0;
+      const dialogueHeight = dialogue ? this.blockHeight(dialogue) : 0;
+      const dialogueY = columns ? 0 : nameHeight;
+      const height = columns ? Math.max(nameHeight, dialogueHeight) : nameHeight + dialogueHeight;
+      const layout = { id: entry.id, y, height, name, dialogue, nameX: 0, nameWidth, dialogueX: nameColumn, dialogueY, dialogueWidth };
+      y += height + style.entrySpacing;
+      return layout;
+    });
+    const totalHeight = Math.max(y - style.entrySpacing, 0);
+    const overflow = Math.max(totalHeight - contentHeight, 0);
+    const offset = overflow * (1 - (this.beat.backlog?.scroll ?? 0) / 100);
+    laidOut.forEach(entry => { entry.y -= offset; });
+
+    const thumb = style.scrollbar && overflow > 0
+      ? {
+        x: contentX + contentWidth + BACKLOG_SCROLLBAR_GAP,
+        y: contentY + contentHeight * (offset / totalHeight),
+        height: contentHeight * (contentHeight / totalHeight)
+      }
+      : null;
+    return { panelX, panelY, panelWidth, panelHeight, contentX, contentY, contentWidth, contentHeight, entries: laidOut, scrollRange: overflow, thumb };
+  }
+
+  private drawBacklog() {
+    const { ctx, template } = this;
+    const style = template.backlogStyle;
+    const layout = this.layoutBacklog();
+    ctx.fillStyle = `rgba(0, 0, 0, ${style.dim / 100})`;
+    ctx.fillRect(0, 0, this.sceneWidth, this.sceneHeight);
+
+    const inset = style.borderWidth / 2;
+    roundedRect(ctx, layout.panelX + inset, layout.panelY + inset, layout.panelWidth - style.borderWidth, layout.panelHeight - style.borderWidth, style.borderRadius);
+    ctx.fillStyle = hexToRgba(style.backgroundColor, style.opacity / 100);
+    ctx.fill();
+    if (style.borderWidth > 0) {
+      ctx.lineWidth = style.borderWidth;
+      ctx.strokeStyle = style.borderColor;
+      ctx.stroke();
+    }
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(layout.contentX, layout.contentY, layout.contentWidth, layout.contentHeight);
+    ctx.clip();
+    layout.entries.forEach(entry => {
+      const top = layout.contentY + entry.y;
+      if (top + entry.height < layout.contentY || top > layout.contentY + layout.contentHeight) return;
+      if (entry.name) this.drawBlock(entry.name, layout.contentX + entry.nameX, top, entry.nameWidth, 'left');
+      if (entry.dialogue) this.drawBlock(entry.dialogue, layout.contentX + entry.dialogueX, top + entry.dialogueY, entry.dialogueWidth, 'left');
+    });
+    ctx.restore();
+
+    if (layout.thumb) {
+      const color = template.dialogueStyle.color;
+      const radius = BACKLOG_SCROLLBAR_WIDTH / 2;
+      roundedRect(ctx, layout.thumb.x, layout.contentY, BACKLOG_SCROLLBAR_WIDTH, layout.contentHeight, radius);
+      ctx.fillStyle = hexToRgba(color, BACKLOG_TRACK_ALPHA);
+      ctx.fill();
+      roundedRect(ctx, layout.thumb.x, layout.thumb.y, BACKLOG_SCROLLBAR_WIDTH, layout.thumb.height, radius);
+      ctx.fillStyle = hexToRgba(color, BACKLOG_THUMB_ALPHA);
+      ctx.fill();
+    }
+  }
+
+  private drawHudIcon(d: string, x: number, y: number, size: number, color: string, outline: boolean) {
+    const { ctx } = this;
+    const path = this.environment.createPath(d);
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(size / HUD_ICON_VIEWBOX, size / HUD_ICON_VIEWBOX);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    if (outline) {
+      ctx.strokeStyle = '#000000';
+      ctx.lineWidth = HUD_ICON_STROKE + HUD_ICON_OUTLINE;
+      ctx.stroke(path);
+    }
+    ctx.strokeStyle = color;
+    ctx.lineWidth = HUD_ICON_STROKE;
+    ctx.stroke(path);
+    ctx.restore();
+  }
+
+  // Icons are one font size square; everything sits on a row one line tall
+  private drawHud() {
+    const { ctx } = this;
+    const { hud } = this.template;
+    const style = hud.textStyle;
+    const rowHeight = style.fontSize * LINE_HEIGHT;
+    ctx.font = fontString(style, this.fonts);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+
+    if (hud.quickMenu && hud.buttons.length > 0) {
+      const widths = hud.buttons.map(button => hud.display === 'icon' ? style.fontSize : ctx.measureText(QUICK_MENU_BUTTONS[button].label).width);
+      const total = widths.reduce((sum, w) => sum + w, 0) + hud.spacing * (widths.length - 1);
+      const { vertical, side } = hudPlacement(hud.position);
+      let x = side === 'left' ? hud.margin : side === 'center' ? (this.sceneWidth - total) / 2 : this.sceneWidth - hud.margin - total;
+      const y = vertical === 'top' ? hud.margin : this.sceneHeight - hud.margin - rowHeight;
+      hud.buttons.forEach((button, i) => {
+        const active = hud.activeButtons.includes(button);
+        const color = active ? hud.activeColor : style.color;
+        ctx.save();
+        ctx.globalAlpha = active ? 1 : hud.idleOpacity / 100;
+        if (hud.display === 'icon') {
+          this.drawHudIcon(QUICK_MENU_BUTTONS[button].icon, x, y + (rowHeight - style.fontSize) / 2, style.fontSize, color, style.hasOutline);
+        } else {
+          this.drawTextLine(QUICK_MENU_BUTTONS[button].label, { ...style, color }, x, y + rowHeight / 2);
+        }
+        ctx.restore();
+        x += widths[i] + hud.spacing;
+      });
+    }
+
+    const badge = hudBadgeLabel(hud);
+    if (badge) {
+      const width = ctx.measureText(badge).width + HUD_BADGE_PADDING_X * 2;
+      const height = rowHeight + HUD_BADGE_PADDING_Y * 2;
+      const x = hudBadgeSide(hud) === 'left' ? hud.margin : this.sceneWidth - hud.margin - width;
+      roundedRect(ctx, x, hud.margin, width, height, height / 2);
+      ctx.fillStyle = HUD_BADGE_BACKGROUND;
+      ctx.fill();
+      this.drawTextLine(badge, { ...style, color: hud.activeColor }, x + HUD_BADGE_PADDING_X, hud.margin + height / 2);
+    }
+  }
+}
+
+// Draws one beat at exactly options.width × options.height, independent of the editor DOM
+export async function renderBeat(state: SceneState, beatIndex: number, options: RenderOptions): Promise<HTMLCanvasElement> {
+  const environment = options.environment ?? browserEnvironment;
+  const canvas = environment.createCanvas(options.width, options.height);
+  await environment.fontsReady();
+  await new SceneRenderer(canvas.getContext('2d')!, state, beatIndex, options).render();
+  return canvas;
+}
+
+// Lays out a beat's textbox in reference pixels without drawing it; null when the beat hides the textbox
+export function measureTextbox(state: SceneState, beatIndex: number, options: RenderOptions): TextboxLayout | null {
+  const { choiceMenu: menu, backlog } = state.beats[beatIndex];
+  if ((menu && !menu.showTextbox) || backlog) return null;
+  const environment = options.environment ?? browserEnvironment;
+  const ctx = environment.createCanvas(1, 1).getContext('2d')!;
+  return new SceneRenderer(ctx, state, beatIndex, options).layoutTextbox();
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image.')), type);
+  });
+}
+
+// Lays out a backlog beat's history panel in reference pixels; null for beats in the normal view
+export function measureBacklog(state: SceneState, beatIndex: number, options: RenderOptions): BacklogLayout | null {
+  if (!state.beats[beatIndex].backlog) return null;
+  const environment = options.environment ?? browserEnvironment;
+  const ctx = environment.createCanvas(1, 1).getContext('2d')!;
+  return new SceneRenderer(ctx, state, beatIndex, options).layoutBacklog();
+}
@@ -0,0 +1,145 @@
+export type ScriptFormat = 'renpy' | 'screenplay';
+
+export interface ImportedLine {
+  lineNumber: number;
+  speaker: string;
+  text: string;
+}
+
+export interface ImportIssue {
+  lineNumber: number;
+  content: string;
+  message: string;
+}
+
+export interface ScriptImportResult {
+  format: ScriptFormat;
+  lines: ImportedLine[];
+  issues: ImportIssue[];
+}
+
+// Ren'Py statements that carry no dialogue and are skipped silently
+const RENPY_STATEMENTS = new Set([
+  'label', 'scene', 'show', 'hide', 'with', 'play', 'stop', 'queue', 'voice', 'jump', 'call', 'return',
+  'menu', 'python', 'init', 'image', 'define', 'default', 'transform', 'screen', 'style', 'pause',
+  'window', 'if', 'elif', 'else', 'while', 'pass', 'nvl', 'camera', 'at', 'translate', 'old', 'new'
+]);
+
+const STRING_PATTERN = /^(?:_\(\s*)?("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/;
+
+function unquote(literal: string) {
+  return literal.slice(1, -1).replace(/\\n/g, '\n').replace(/\\(.)/g, '$1');
+}
+
+export function detectScriptFormat(source: string, fileName = ''): ScriptFormat {
+  if (/\.rpy$/i.test(fileName)) return 'renpy';
+  if (/^\s*define\s+\w+\s*=\s*Character\(/m.test(source) || /^\s*label\s+\w+\s*:/m.test(source)) return 'renpy';
+  return 'screenplay';
+}
+
+function parseCharacterDefinition(line: string): { alias: string, name: string } | null {
+  const match = line.match(/^define\s+([A-Za-z_]\w*)\s*=\s*(?:[\w.]+\.)?Character\(\s*(.*)$/);
+  if (!match) return null;
+  const [, alias, args] = match;
+  if (/^None\b/.test(args)) return { alias, name: '' };
+  const literal = args.match(STRING_PATTERN);
+  return { alias, name: literal ? unquote(literal[1]) : alias };
+}
+
+export function parseRenpyScript(source: string): ScriptImportResult {
+  const aliases = new Map<string, string>();
+  const lines: ImportedLine[] = [];
+  const issues: ImportIssue[] = [];
+  const rows = source.split(/\r?\n/);
+
+  // Aliases can be defined anywhere in the file, so collect them first
+  rows.forEach(row => {
+    const definition = parseCharacterDefinition(row.trim());
+    if (definition) aliases.set(definition.alias, definition.name);
+  });
+
+  rows.forEach((row, index) => {
+    const lineNumber = index + 1;
+    const trimmed = row.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('$')) return;
+
+    let rest = trimmed;
+    let speaker = '';
+    const speakerLiteral = rest.match(STRING_PATTERN);
+    if (speakerLiteral) {
+      rest = rest.slice(speakerLiteral[0].length).replace(/^\s*\)/, '').trim();
+      const textLiteral = rest.match(STRING_PATTERN);
+      if (!textLiteral) {
+        // A lone string is narration; a string ending in ':' is a menu choice
+        if (rest === '' || rest.startsWith('with ')) {
+          lines.push({ lineNumber, speaker: '', text: unquote(speakerLiteral[1]) });
+        } else if (!rest.endsWith(':') && !/^if\s.*:$/.test(rest)) {
+          issues.push({ lineNumber, content: row, message: 'Unexpected content after string' });
+        }
+        return;
+      }
+      speaker = unquote(speakerLiteral[1]);
+      lines.push({ lineNumber, speaker, text: unquote(textLiteral[1]) });
+      return;
+    }
+
+    const keyword = rest.match(/^([A-Za-z_]\w*)/)?.[1];
+    if (!keyword) {
+      issues.push({ lineNumber, content: row, message: 'Unrecognized statement' });
+      return;
+    }
+
+    // `e happy "Hello"`: alias, optional image attributes, then the line
+    const say = rest.match(/^([A-Za-z_]\w*)((?:\s+-?[A-Za-z_]\w*)*)\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/);
+    if (say && !RENPY_STATEMENTS.has(say[1])) {
+      if (aliases.has(say[1])) {
+        speaker = aliases.get(say[1])!;
+      } else {
+        speaker = say[1];
+        issues.push({ lineNumber, content: row, message: `Undefined character "${say[1]}", imported under that name` });
+      }
+      lines.push({ lineNumber, speaker, text: unquote(say[3]) });
+      return;
+    }
+
+    if (RENPY_STATEMENTS.has(keyword) || trimmed.endsWith(':')) return;
+    issues.push({ lineNumber, content: row, message: 'Unrecognized statement' });
+  });
+
+  return { format: 'renpy', lines, issues };
+}
+
+export function parseScreenplay(source: string): ScriptImportResult {
+  const lines: ImportedLine[] = [];
+  const issues: ImportIssue[] = [];
+
+  source.split(/\r?\n/).forEach((row, index) => {
+    const lineNumber = index + 1;
+    const trimmed = row.trim();
+    // Blank lines, comments, (parentheticals) and [stage directions] carry no dialogue
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//')) return;
+    if (/^\(.*\)$/.test(trimmed) || /^\[.*\]$/.test(trimmed)) return;
+
+    const match = trimmed.match(/^([^:：]{1,40})[:：]\s*(.*)$/);
+    if (match && !/[.!?。！？"“]/.test(match[1])) {
+      const speaker = match[1].trim();
+      const text = match[2].trim();
+      if (!speaker) {
+        issues.push({ lineNumber, content: row, message: 'Missing speaker name before ":"' });
+      } else if (!text) {
+        issues.push({ lineNumber, content: row, message: `No dialogue after "${speaker}:"` });
+      } else {
+        lines.push({ lineNumber, speaker, text });
+      }
+      return;
+    }
+
+    lines.push({ lineNumber, speaker: '', text: trimmed });
+  });
+
+  return { format: 'screenplay', lines, issues };
+}
+
+export function parseScript(source: string, fileName = ''): ScriptImportResult {
+  return detectScriptFormat(source, fileName) === 'renpy' ? parseRenpyScript(source) : parseScreenplay(source);
+}
@@ -0,0 +1,208 @@
+import { BacklogStyle, HudStyle, NamePlateStyle, SceneBeat, SceneState, TemplateOverrides, TextLimits, UITemplate } from './types';
+import { collectTemplateFonts, mergeFonts } from './fonts';
+
+export const DEFAULT_TEXT_LIMITS: TextLimits = { maxDialogueLines: 3, maxSecondaryLines: 2, maxWidth: 100, maxBoxHeight: 0 };
+
+export const DEFAULT_NVL = { nvlMargin: 6, nvlSpacing: 16, nvlFade: 25 };
+
+export const DEFAULT_NAME_PLATE: NamePlateStyle = {
+  anchor: 'inline',
+  type: 'solid',
+  backgroundColor: '#000000',
+  opacity: 80,
+  borderColor: '#ffffff',
+  borderWidth: 0,
+  borderRadius: 4,
+  paddingX: 16,
+  paddingY: 4,
+  frame: null,
+  minWidth: 0,
+  offsetX: 0,
+  offsetY: 0,
+  hideWhenEmpty: true
+};
+
+export const DEFAULT_HUD: HudStyle = {
+  quickMenu: false,
+  buttons: ['back', 'log', 'auto', 'skip', 'save', 'load', 'settings'],
+  activeButtons: [],
+  display: 'text',
+  position: 'bottom-center',
+  spacing: 20,
+  margin: 8,
+  textStyle: { fontFamily: 'sans-serif', fontSize: 14, color: '#ffffff', hasOutline: true, isItalic: false },
+  activeColor: '#ffd43b',
+  idleOpacity: 70,
+  modeBadge: true,
+  stillIndicator: false
+};
+
+export const DEFAULT_BACKLOG_STYLE: BacklogStyle = {
+  dim: 60,
+  backgroundColor: '#000000',
+  opacity: 70,
+  borderColor: '#ffffff',
+  borderWidth: 0,
+  borderRadius: 8,
+  width: 80,
+  height: 80,
+  padding: 32,
+  entrySpacing: 20,
+  entryLayout: 'stacked',
+  nameColumnWidth: 25,
+  scrollbar: true
+};
+
+export const DEFAULT_TEMPLATES: UITemplate[] = [
+  {
+    id: 'cinematic',
+    name: 'Cinematic (Default)',
+    parentId: null,
+    overrides: {},
+    nameStyle: { fontFamily: 'sans-serif', fontSize: 24, color: '#ffffff', hasOutline: true, isItalic: false },
+    dialogueStyle: { fontFamily: 'sans-serif', fontSize: 32, color: '#ffffff', hasOutline: true, isItalic: false },
+    secondaryDialogueStyle: { fontFamily: 'sans-serif', fontSize: 20, color: '#cccccc', hasOutline: true, isItalic: true },
+    boxStyle: { type: 'gradient', layout: 'adv-bottom', backgroundColor: '#000000', opacity: 80, padding: 20, textAlign: 'left', ...DEFAULT_NVL },
+    namePlate: DEFAULT_NAME_PLATE,
+    choiceTextStyle: { fontFamily: 'sans-serif', fontSize: 24, color: '#ffffff', hasOutline: true, isItalic: false },
+    choiceStyle: { buttonColor: '#000000', buttonOpacity: 70, borderColor: '#ffffff', borderWidth: 1, borderRadius: 4, hoverColor: '#4f46e5', chosenColor: '#312e81', disabledOpacity: 40, width: 60, spacing: 16, verticalPosition: 40 },
+    hud: DEFAULT_HUD,
+    backlogStyle: DEFAULT_BACKLOG_STYLE,
+    textLimits: DEFAULT_TEXT_LIMITS,
+    languageStyles: {}
+  },
+  {
+    id: 'fantasy',
+    name: 'Fantasy RPG',
+    parentId: null,
+    overrides: {},
+    nameStyle: { fontFamily: 'serif', fontSize: 28, color: '#ffd700', hasOutline: true, isItalic: false },
+    dialogueStyle: { fontFamily: 'serif', fontSize: 28, color: '#ffffff', hasOutline: true, isItalic: false },
+    secondaryDialogueStyle: { fontFamily: 'serif', fontSize: 18, color: '#cccccc', hasOutline: true, isItalic: true },
+    boxStyle: { type: 'fantasy', layout: 'adv-bottom', backgroundColor: '#1a1a1a', opacity: 90, padding: 15, textAlign: 'left', ...DEFAULT_NVL },
+    namePlate: DEFAULT_NAME_PLATE,
+    choiceTextStyle: { fontFamily: 'serif', fontSize: 24, color: '#ffd700', hasOutline: true, isItalic: false },
+    choiceStyle: { buttonColor: '#1a1a1a', buttonOpacity: 90, borderColor: '#b8860b', borderWidth: 3, borderRadius: 4, hoverColor: '#5c4305', chosenColor: '#3d2d03', disabledOpacity: 40, width: 55, spacing: 14, verticalPosition: 40 },
+    hud: { ...DEFAULT_HUD, textStyle: { ...DEFAULT_HUD.textStyle, fontFamily: 'serif' }, activeColor: '#ffd700' },
+    backlogStyle: { ...DEFAULT_BACKLOG_STYLE, backgroundColor: '#1a1a1a', opacity: 90, borderColor: '#b8860b', borderWidth: 3, borderRadius: 4 },
+    textLimits: DEFAULT_TEXT_LIMITS,
+    languageStyles: {}
+  },
+  {
+    id: 'romance',
+    name: 'Romance / Otome',
+    parentId: null,
+    overrides: {},
+    nameStyle: { fontFamily: 'serif', fontSize: 26, color: '#ff69b4', hasOutline: false, isItalic: false },
+    dialogueStyle: { fontFamily: 'sans-serif', fontSize: 28, color: '#333333', hasOutline: false, isItalic: false },
+    secondaryDialogueStyle: { fontFamily: 'sans-serif', fontSize: 18, color: '#666666', hasOutline: false, isItalic: true },
+    boxStyle: { type: 'romance', layout: 'adv-bottom', backgroundColor: '#ffffff', opacity: 85, padding: 10, textAlign: 'center', ...DEFAULT_NVL },
+    namePlate: DEFAULT_NAME_PLATE,
+    choiceTextStyle: { fontFamily: 'serif', fontSize: 22, color: '#333333', hasOutline: false, isItalic: false },
+    choiceStyle: { buttonColor: '#ffffff', buttonOpacity: 85, borderColor: '#ffb6c1', borderWidth: 2, borderRadius: 24, hoverColor: '#ffe4ec', chosenColor: '#ffc0d3', disabledOpacity: 45, width: 50, spacing: 12, verticalPosition: 40 },
+    hud: { ...DEFAULT_HUD, textStyle: { ...DEFAULT_HUD.textStyle, color: '#666666', hasOutline: false }, activeColor: '#ff69b4' },
+    backlogStyle: { ...DEFAULT_BACKLOG_STYLE, dim: 30, backgroundColor: '#ffffff', opacity: 85, borderColor: '#ffb6c1', borderWidth: 2, borderRadius: 24 },
+    textLimits: DEFAULT_TEXT_LIMITS,
+    languageStyles: {}
+  }
+];
+
+// A beat's template override, falling back to the scene template when unset or deleted
+export function resolveBeatTemplate(state: SceneState, beat: SceneBeat): UITemplate {
+  return (beat.templateId && [...DEFAULT_TEMPLATES, ...state.savedTemplates].find(t => t.id === beat.templateId)) || state.template;
+}
+
+// Template inheritance. A child keeps the fields it changed as overrides and is re-resolved over its
+// parent whenever the library changes, so edits to the parent reach it.
+
+// Fields that belong to the template itself rather than its look
+const OWN_FIELDS = ['id', 'name', 'parentId', 'overrides', 'fonts'];
+// Maps keyed by language code are overridden whole, so renaming or removing a track can update them
+const WHOLE_FIELDS = ['languageStyles'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameKeys(a: Record<string, unknown>, b: Record<string, unknown>) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b);
+}
+
+export function templateLibrary(state: Pick<SceneState, 'savedTemplates'>) {
+  return [...DEFAULT_TEMPLATES, ...state.savedTemplates];
+}
+
+// The leaf fields where `template` differs from `base`. Objects whose keys differ, such as a frame
+// replacing null, are overridden as a whole.
+export function templateOverrides(template: UITemplate, base: UITemplate): TemplateOverrides {
+  const overrides: TemplateOverrides = {};
+  const compare = (value: unknown, baseValue: unknown, path: string) => {
+    if (isPlainObject(value) && isPlainObject(baseValue) && sameKeys(value, baseValue) && !WHOLE_FIELDS.includes(path)) {
+      Object.keys(value).forEach(key => compare(value[key], baseValue[key], `${path}.${key}`));
+    } else if (JSON.stringify(value) !== JSON.stringify(baseValue)) {
+      overrides[path] = value;
+    }
+  };
+  Object.keys(template)
+    .filter(key => !OWN_FIELDS.includes(key))
+    .forEach(key => compare(template[key as keyof UITemplate], base[key as keyof UITemplate], key));
+  return overrides;
+}
+
+// Copies `target` with `value` written at the path of `keys`; a missing or non-object step starts an empty object
+function setPath<T>(target: T, [key, ...rest]: string[], value: unknown): T {
+  if (!isPlainObject(target)) return target;
+  const child = target[key];
+  return { ...target, [key]: rest.length === 0 ? value : setPath(isPlainObject(child) ? child : {}, rest, value) };
+}
+
+export function applyTemplateOverrides(template: UITemplate, overrides: TemplateOverrides): UITemplate {
+  return Object.entries(overrides).reduce((result, [path, value]) => setPath(result, path.split('.'), value), template);
+}
+
+// Whether `path` names a style field of the template that an override can replace
+export function isOverridePath(template: UITemplate, path: string) {
+  const keys = path.split('.');
+  if (OWN_FIELDS.includes(keys[0])) return false;
+  let value: unknown = template;
+  for (const key of keys) {
+    if (!isPlainObject(value) || !(key in value)) return false;
+    value = value[key];
+  }
+  return true;
+}
+
+function findParent(template: UITemplate, library: UITemplate[], seen: string[]) {
+  if (template.parentId === null || seen.includes(template.parentId)) return undefined;
+  return library.find(t => t.id === template.parentId);
+}
+
+export function resolveTemplate(template: UITemplate, library: UITemplate[], seen: string[] = [template.id]): UITemplate {
+  const parent = findParent(template, library, seen);
+  if (!parent) return template;
+  const base = resolveTemplate(parent, library, [...seen, parent.id]);
+  const { id, name, parentId, overrides } = template;
+  const resolved = applyTemplateOverrides({ ...base, id, name, parentId, overrides }, overrides);
+  return { ...resolved, fonts: collectTemplateFonts(resolved, mergeFonts(template.fonts ?? [], base.fonts)) };
+}
+
+// What `template` changes from its parent as it stands, which for one being edited can differ from
+// its stored overrides. Templates without a parent in the library keep their stored ones.
+export function currentOverrides(template: UITemplate, library: UITemplate[]) {
+  const parent = findParent(template, library, [template.id]);
+  return parent ? templateOverrides(template, resolveTemplate(parent, library)) : template.overrides;
+}
+
+// Moves a template being edited onto its parent's current look, keeping the fields it changed
+export function rebaseTemplate(template: UITemplate, previousLibrary: UITemplate[], library: UITemplate[]) {
+  return resolveTemplate({ ...template, overrides: currentOverrides(template, previousLibrary) }, library);
+}
+
+// Replaces the saved templates, re-resolving every child and the scene template against the result
+export function withSavedTemplates(state: SceneState, savedTemplates: UITemplate[]): SceneState {
+  const library = [...DEFAULT_TEMPLATES, ...savedTemplates];
+  const refreshed = savedTemplates.map(t => resolveTemplate(t, library));
+  const template = rebaseTemplate(state.template, templateLibrary(state), [...DEFAULT_TEMPLATES, ...refreshed]);
+  return { ...state, savedTemplates: refreshed, template, fonts: mergeFonts(state.fonts, template.fonts) };
+}
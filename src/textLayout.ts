@@ -0,0 +1,133 @@
+import { TextStyle } from './types';
+import { LINE_HEIGHT } from './layout';
+import { RichRun, RunStyle, parseRichText, resolveRunStyle } from './richText';
+import { fontStack } from './fonts';
+
+type Context = CanvasRenderingContext2D;
+
+export interface LineSegment {
+  text: string;
+  run: RichRun;
+  style: RunStyle;
+  // Index of the segment's first character in the block's plain text, in code points
+  start: number;
+  // Offset from the start of the line
+  x: number;
+  width: number;
+}
+
+export interface WrappedLine {
+  segments: LineSegment[];
+  start: number;
+  // Without trailing whitespace, for alignment
+  width: number;
+  height: number;
+  // Distance from the top of the line to the shared alphabetic baseline
+  baseline: number;
+}
+
+export function fontString(style: TextStyle & { isBold?: boolean }, availableFonts: Set<string>, scale = 1) {
+  return `${style.isItalic ? 'italic ' : ''}${style.isBold ? 'bold ' : ''}${style.fontSize * scale}px ${fontStack(style.fontFamily, availableFonts)}`;
+}
+
+function isBreakableChar(char: string) {
+  return /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/.test(char);
+}
+
+// Ascent and descent of the font, used to center text in CSS-style line boxes
+export function fontExtents(ctx: Context, style: RunStyle, availableFonts: Set<string>) {
+  ctx.font = fontString(style, availableFonts);
+  const metrics = ctx.measureText('Hg');
+  return {
+    ascent: metrics.fontBoundingBoxAscent ?? style.fontSize * 0.8,
+    descent: metrics.fontBoundingBoxDescent ?? style.fontSize * 0.2,
+  };
+}
+
+// Greedy word wrap over styled runs that keeps every visible character on some line,
+// so typewriter counts can be mapped onto lines. CJK text may break anywhere; ruby
+// bases never break.
+export function layoutText(ctx: Context, source: string, base: TextStyle, maxWidth: number, availableFonts: Set<string>): WrappedLine[] {
+  const { runs } = parseRichText(source);
+  const styles = runs.map(run => resolveRunStyle(run, base));
+  const chars: { char: string, run: number }[] = [];
+  runs.forEach((run, r) => Array.from(run.text).forEach(char => chars.push({ char, run: r })));
+
+  // Splits [from, to) into same-run pieces
+  const pieces = (from: number, to: number) => {
+    const result: { run: number, start: number, text: string }[] = [];
+    for (let i = from; i < to;) {
+      let j = i;
+      while (j < to && chars[j].run === chars[i].run) j++;
+      result.push({ run: chars[i].run, start: i, text: chars.slice(i, j).map(c => c.char).join('') });
+      i = j;
+    }
+    return result;
+  };
+  const measurePiece = (run: number, text: string) => {
+    ctx.font = fontString(styles[run], availableFonts);
+    return ctx.measureText(text).width;
+  };
+  const measure = (from: number, to: number) => {
+    let end = to;
+    while (end > from && /\s/.test(chars[end - 1].char)) end--;
+    return pieces(from, end).reduce((sum, piece) => sum + measurePiece(piece.run, piece.text), 0);
+  };
+
+  const makeLine = (from: number, to: number): WrappedLine => {
+    let x = 0;
+    const segments = pieces(from, to).map(piece => {
+      const width = measurePiece(piece.run, piece.text);
+      const segment = { text: piece.text, run: runs[piece.run], style: styles[piece.run], start: piece.start, x, width };
+      x += width;
+      return segment;
+    });
+    const tallest = segments.reduce<RunStyle>((max, s) => s.style.fontSize > max.fontSize ? s.style : max, { ...base, isBold: false });
+    const height = tallest.fontSize * LINE_HEIGHT;
+    const { ascent, descent } = fontExtents(ctx, tallest, availableFonts);
+    return { segments, start: from, width: measure(from, to), height, baseline: height / 2 + (ascent - descent) / 2 };
+  };
+
+  const isRubyBase = (i: number) => runs[chars[i].run].isRubyBase;
+  const lines: WrappedLine[] = [];
+  let lineStart = 0;
+  let i = 0;
+  while (i <= chars.length) {
+    if (i === chars.length || chars[i].char === '\n') {
+      lines.push(makeLine(lineStart, i));
+      lineStart = i + 1;
+      i++;
+      continue;
+    }
+    let j = i + 1;
+    if (isRubyBase(i)) {
+      while (j < chars.length && chars[j].run === chars[i].run) j++;
+    } else if (/\s/.test(chars[i].char)) {
+      while (j < chars.length && chars[j].char !== '\n' && /\s/.test(chars[j].char)) j++;
+    } else if (!isBreakableChar(chars[i].char)) {
+      while (j < chars.length && !/\s/.test(chars[j].char) && !isBreakableChar(chars[j].char) && !isRubyBase(j)) j++;
+    }
+    if (measure(lineStart, j) <= maxWidth) {
+      i = j;
+    } else if (i > lineStart) {
+      lines.push(makeLine(lineStart, i));
+      lineStart = i;
+    } else if (isRubyBase(i)) {
+      lines.push(makeLine(lineStart, j));
+      lineStart = j;
+      i = j;
+    } else {
+      // A single word wider than the line is split between characters
+      let k = i + 1;
+      while (k < j && measure(lineStart, k + 1) <= maxWidth) k++;
+      lines.push(makeLine(lineStart, k));
+      lineStart = k;
+      i = k;
+    }
+  }
+  return lines;
+}
+
+export function linesHeight(lines: WrappedLine[]) {
+  return lines.reduce((sum, line) => sum + line.height, 0);
+}
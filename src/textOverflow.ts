@@ -0,0 +1,57 @@
+import { SceneState, TrackDisplay } from './types';
+import { RenderOptions, measureTextbox } from './sceneRenderer';
+import { resolveBeatTemplate } from './templates';
+import { languageName } from './languages';
+
+// Checks lines against their template's text limits, so long localized lines are caught
+// before they grow the textbox over the art.
+
+export interface TextOverflow {
+  beatIndex: number;
+  // Box height and off-screen problems belong to the whole textbox rather than one line
+  field: 'primary' | 'secondary' | 'textbox';
+  // Track of the overflowing line; for the textbox, the primary track it was measured with
+  language: string;
+  message: string;
+}
+
+export function checkBeatOverflow(state: SceneState, beatIndex: number, options: RenderOptions): TextOverflow[] {
+  const layout = measureTextbox(state, beatIndex, options);
+  if (!layout) return [];
+  const { textLimits: limits, boxStyle } = resolveBeatTemplate(state, state.beats[beatIndex]);
+  const { display } = state;
+  const overflows: TextOverflow[] = [];
+  const report = (field: TextOverflow['field'], language: string, message: string) => overflows.push({ beatIndex, field, language, message });
+
+  const checkLines = (field: 'primary' | 'secondary', language: string | null, lines: number, max: number) => {
+    if (language !== null && max > 0 && lines > max) {
+      report(field, language, `${languageName(state.languages, language)} wraps to ${lines} lines (limit ${max})`);
+    }
+  };
+  checkLines('primary', display.primary, layout.dialogue?.lines.length ?? 0, limits.maxDialogueLines);
+  checkLines('secondary', display.secondary, layout.secondary?.lines.length ?? 0, limits.maxSecondaryLines);
+
+  const boxShare = Math.round((layout.boxHeight / layout.sceneHeight) * 100);
+  if (Math.min(layout.contentY, layout.plate?.y ?? 0) < 0) {
+    report('textbox', display.primary, 'Text runs off the top of the scene');
+  } else if (layout.contentY + layout.contentHeight > Math.min(layout.sceneHeight, layout.boxY + layout.boxHeight)) {
+    report('textbox', display.primary, boxStyle.layout === 'nvl' ? 'Line runs past the bottom of the NVL page' : 'Text runs off the bottom of the scene');
+  } else if (layout.droppedLines > 0) {
+    report('textbox', display.primary, `NVL page is full; ${layout.droppedLines} earlier line${layout.droppedLines === 1 ? '' : 's'} scrolled off`);
+  } else if (boxStyle.layout !== 'nvl' && limits.maxBoxHeight > 0 && boxShare > limits.maxBoxHeight) {
+    report('textbox', display.primary, `Textbox covers ${boxShare}% of the scene height (limit ${limits.maxBoxHeight}%)`);
+  }
+  return overflows;
+}
+
+// Scans every beat once per track pairing; a problem found by several pairings is listed once
+export function scanProjectOverflow(state: SceneState, options: RenderOptions, displays: TrackDisplay[] = [state.display]): TextOverflow[] {
+  const seen = new Set<string>();
+  return state.beats.flatMap((_, i) => displays.flatMap(display => checkBeatOverflow({ ...state, display }, i, options)))
+    .filter(overflow => {
+      const key = `${overflow.beatIndex}|${overflow.field}|${overflow.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
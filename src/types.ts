@@ -0,0 +1,341 @@
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  hasOutline: boolean;
+  isItalic: boolean;
+}
+
+export interface NineSliceFrame {
+  image: string;
+  fileName: string;
+  // Slice insets in source image pixels
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+  // Size of the drawn borders relative to the source insets
+  borderScale: number;
+}
+
+export interface BoxStyle {
+  type: 'gradient' | 'solid' | 'fantasy' | 'romance' | 'image';
+  // ADV boxes show the current line at the bottom, top or middle of the scene;
+  // NVL fills the scene and stacks the page's earlier lines above it
+  layout: 'adv-bottom' | 'adv-top' | 'centered' | 'nvl';
+  backgroundColor: string;
+  opacity: number;
+  // Distance from the scene edge the box is anchored to, as a percentage of the width
+  padding: number;
+  textAlign: 'left' | 'center' | 'right';
+  // NVL page inset from the scene edges, as a percentage of the width
+  nvlMargin: number;
+  // Space between stacked NVL lines, in reference pixels
+  nvlSpacing: number;
+  // Opacity each earlier NVL line loses relative to the line after it, as a percentage
+  nvlFade: number;
+  // Used by the 'image' type
+  frame?: NineSliceFrame | null;
+}
+
+// 'inline' sets the name in the textbox above the dialogue; the others give it a plate of its
+// own, sitting on top of the box, straddling its top edge or inside it above the dialogue.
+// The side lines the plate up with the text column.
+export type NamePlateAnchor =
+  | 'inline'
+  | 'above-left' | 'above-center' | 'above-right'
+  | 'edge-left' | 'edge-center' | 'edge-right'
+  | 'inset-left' | 'inset-center' | 'inset-right';
+
+export interface NamePlateStyle {
+  anchor: NamePlateAnchor;
+  // 'none' places the name without drawing a plate behind it
+  type: 'none' | 'solid' | 'image';
+  backgroundColor: string;
+  opacity: number;
+  borderColor: string;
+  borderWidth: number;
+  borderRadius: number;
+  // Space around the name; image plates use at least the frame's borders
+  paddingX: number;
+  paddingY: number;
+  // Used by the 'image' type
+  frame: NineSliceFrame | null;
+  // Narrowest the plate gets, for short names
+  minWidth: number;
+  // Nudge from the anchored position, in reference pixels
+  offsetX: number;
+  offsetY: number;
+  // Leaves narration beats without an empty plate
+  hideWhenEmpty: boolean;
+}
+
+export interface CustomFont {
+  family: string;
+  fileName: string;
+  format: 'truetype' | 'opentype' | 'woff' | 'woff2';
+  // Base64 data URL of the font file
+  data: string;
+}
+
+export interface ChoiceStyle {
+  buttonColor: string;
+  buttonOpacity: number;
+  borderColor: string;
+  borderWidth: number;
+  borderRadius: number;
+  hoverColor: string;
+  chosenColor: string;
+  disabledOpacity: number;
+  // Button width as a percentage of the preview width
+  width: number;
+  spacing: number;
+  // Center of the menu, as a percentage from the top of the preview
+  verticalPosition: number;
+}
+
+export interface LanguageTrack {
+  // BCP 47 tag such as en, ja or zh-Hans; beats key their text by it
+  code: string;
+  name: string;
+}
+
+// One string per language track, keyed by code; a missing key is an untranslated line
+export type LocalizedText = Record<string, string>;
+
+// Layered over the dialogue, secondary and choice styles for text in one language
+export interface LanguageStyle {
+  // null keeps the template's fonts
+  fontFamily: string | null;
+  // Percentage of the template's font sizes
+  fontScale: number;
+  // Sets italic styles upright, for scripts whose fonts have no italics
+  upright: boolean;
+}
+
+// Which tracks the preview and exports show
+export interface TrackDisplay {
+  primary: string;
+  // Drawn under the primary line in the secondary style; null shows a single language
+  secondary: string | null;
+}
+
+export interface TextLimits {
+  // Lines a block may wrap to before it counts as overflowing; 0 for no limit
+  maxDialogueLines: number;
+  maxSecondaryLines: number;
+  // Width text wraps at, as a percentage of the textbox's content area
+  maxWidth: number;
+  // Tallest the textbox may grow, as a percentage of the scene height; 0 for no limit
+  maxBoxHeight: number;
+}
+
+export type QuickMenuButton = 'back' | 'log' | 'auto' | 'skip' | 'save' | 'load' | 'settings';
+
+export type HudPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// In-game chrome drawn over the scene: the quick menu, mode badges and the continue indicator
+export interface HudStyle {
+  quickMenu: boolean;
+  // Left to right
+  buttons: QuickMenuButton[];
+  // Drawn lit, as if that mode were switched on
+  activeButtons: QuickMenuButton[];
+  display: 'text' | 'icon';
+  position: HudPosition;
+  // Gap between buttons, and from the menu to the scene edge
+  spacing: number;
+  margin: number;
+  textStyle: TextStyle;
+  activeColor: string;
+  // Opacity of buttons that aren't lit, 0-100
+  idleOpacity: number;
+  // "Auto" or "Skipping" tag in a top corner while that button is lit
+  modeBadge: boolean;
+  // Stills show the continue indicator as if the line had finished, not only playback
+  stillIndicator: boolean;
+}
+
+// The history screen drawn for beats in backlog view
+export interface BacklogStyle {
+  // Black laid over the scene behind the panel, 0-100
+  dim: number;
+  backgroundColor: string;
+  opacity: number;
+  borderColor: string;
+  borderWidth: number;
+  borderRadius: number;
+  // Panel size, as percentages of the scene
+  width: number;
+  height: number;
+  padding: number;
+  entrySpacing: number;
+  // 'stacked' sets each name above its line; 'columns' gives names a column of their own
+  entryLayout: 'stacked' | 'columns';
+  // Name column width, as a percentage of the panel's content width
+  nameColumnWidth: number;
+  scrollbar: boolean;
+}
+
+// Fields a template sets over its parent's, keyed by dotted path such as 'dialogueStyle.fontSize'
+export type TemplateOverrides = Record<string, unknown>;
+
+export interface UITemplate {
+  id: string;
+  name: string;
+  // Template this one extends; the style fields below stay resolved, and are used as they are
+  // when the parent isn't in the library
+  parentId: string | null;
+  overrides: TemplateOverrides;
+  nameStyle: TextStyle;
+  dialogueStyle: TextStyle;
+  secondaryDialogueStyle: TextStyle;
+  boxStyle: BoxStyle;
+  namePlate: NamePlateStyle;
+  choiceTextStyle: TextStyle;
+  choiceStyle: ChoiceStyle;
+  hud: HudStyle;
+  backlogStyle: BacklogStyle;
+  textLimits: TextLimits;
+  // Keyed by language code; languages without an entry use the styles unchanged
+  languageStyles: Record<string, LanguageStyle>;
+  // Custom fonts the styles use, bundled so the template works in other projects
+  fonts?: CustomFont[];
+}
+
+export interface CharacterExpression {
+  name: string;
+  image: string;
+}
+
+export interface SceneCharacter {
+  id: string;
+  // Display name, matched against a beat's characterName in any letter case to find the current speaker
+  name: string;
+  // Translated names keyed by language code; languages without one show `name`
+  names: LocalizedText;
+  // Laid over the template's name style while the character speaks; style fields win over the color
+  nameColor: string | null;
+  // Only the fields the character changes; the rest follow the template and language style
+  nameStyle: Partial<TextStyle> | null;
+  // Expression placed on a beat when the character is picked as its speaker and isn't on it yet
+  defaultExpression: string | null;
+  expressions: CharacterExpression[];
+}
+
+export interface SpriteLayer {
+  id: string;
+  characterId: string;
+  expression: string;
+  // Horizontal center and bottom edge, as a percentage of the preview
+  x: number;
+  y: number;
+  scale: number;
+  flipped: boolean;
+  dimWhenSilent: boolean;
+}
+
+export type TextStyleKey = 'nameStyle' | 'dialogueStyle' | 'secondaryDialogueStyle' | 'choiceTextStyle';
+
+export interface ChoiceOption {
+  id: string;
+  text: LocalizedText;
+  state: 'normal' | 'hover' | 'chosen' | 'disabled';
+}
+
+export interface ChoiceMenu {
+  options: ChoiceOption[];
+  showTextbox: boolean;
+}
+
+export interface BacklogEntry {
+  id: string;
+  characterName: string;
+  text: LocalizedText;
+}
+
+export interface BacklogScreen {
+  // Oldest first
+  entries: BacklogEntry[];
+  // 0 shows the newest entries, 100 scrolls back to the oldest
+  scroll: number;
+}
+
+export interface SceneBeat {
+  id: string;
+  characterName: string;
+  text: LocalizedText;
+  // null carries the background over from the previous beat
+  image: string | null;
+  // Framing and filters; null carries them over like the image, or starts from the default view on a beat that sets a new image
+  background: BackgroundView | null;
+  // null uses the scene template
+  templateId: string | null;
+  // Drawn back to front
+  sprites: SpriteLayer[];
+  choiceMenu: ChoiceMenu | null;
+  // Shows the history screen in place of the textbox and choices
+  backlog: BacklogScreen | null;
+  // Starts a new page in NVL layouts, clearing the earlier lines
+  nvlPageBreak: boolean;
+}
+
+export interface TypewriterSettings {
+  charsPerSecond: number;
+  // Extra hold in ms after sentence-ending and clause punctuation
+  sentencePause: number;
+  clausePause: number;
+}
+
+export interface ExportSize {
+  width: number;
+  height: number;
+}
+
+export type BackgroundFilterType = 'dim' | 'blur' | 'sepia' | 'grayscale' | 'tint' | 'vignette';
+
+export interface BackgroundFilter {
+  id: string;
+  type: BackgroundFilterType;
+  // Percent strength; blur radius in reference pixels
+  amount: number;
+  // Used by tint and vignette
+  color: string;
+}
+
+// Region of the background image that is shown, as percentages of its size
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BackgroundView {
+  // Offset of the image center from the scene center, as a percentage of the scene size
+  panX: number;
+  panY: number;
+  // Percent of the size imageScale gives the cropped image
+  zoom: number;
+  // Degrees clockwise
+  rotation: number;
+  crop: CropRect;
+  // Applied in order
+  filters: BackgroundFilter[];
+}
+
+export interface SceneState {
+  imageScale: 'fit' | 'original';
+  // Output resolution of image and animation exports; the preview keeps its aspect ratio
+  exportSize: ExportSize;
+  beats: SceneBeat[];
+  currentBeat: number;
+  languages: LanguageTrack[];
+  display: TrackDisplay;
+  // The roster; also holds translated names for speakers without sprites
+  characters: SceneCharacter[];
+  typewriter: TypewriterSettings;
+  fonts: CustomFont[];
+  template: UITemplate;
+  savedTemplates: UITemplate[];
+}
@@ -0,0 +1,63 @@
+import { TypewriterSettings } from './types';
+import { plainText } from './richText';
+
+export const DEFAULT_TYPEWRITER: TypewriterSettings = {
+  charsPerSecond: 30,
+  sentencePause: 350,
+  clausePause: 120,
+};
+
+const SENTENCE_END = new Set(['.', '!', '?', '…', '。', '！', '？']);
+const CLAUSE_END = new Set([',', ';', ':', '、', '，', '；', '：', '—']);
+
+// Milliseconds after playback starts at which each character becomes visible.
+// A run of punctuation such as "..." or "?!" only pauses once, after its last mark.
+export function buildRevealTimes(text: string, settings: TypewriterSettings): number[] {
+  const chars = Array.from(text);
+  const step = 1000 / Math.max(settings.charsPerSecond, 1);
+  const times: number[] = [];
+  let time = 0;
+  chars.forEach((char, i) => {
+    time += step;
+    times.push(time);
+    const next = chars[i + 1];
+    if (next === undefined || SENTENCE_END.has(next) || CLAUSE_END.has(next)) return;
+    if (SENTENCE_END.has(char)) time += settings.sentencePause;
+    else if (CLAUSE_END.has(char)) time += settings.clausePause;
+  });
+  return times;
+}
+
+export function revealDuration(times: number[]) {
+  return times.length > 0 ? times[times.length - 1] : 0;
+}
+
+export function visibleCharacters(times: number[], elapsed: number) {
+  let count = 0;
+  while (count < times.length && times[count] <= elapsed) count++;
+  return count;
+}
+
+export interface LineTiming {
+  dialogueTimes: number[];
+  secondaryTimes: number[];
+  dialogueDuration: number;
+  duration: number;
+}
+
+// The secondary line starts revealing once the primary line has finished.
+// Lines may contain markup; only the characters shown on screen are timed.
+export function buildLineTiming(dialogue: string, secondaryDialogue: string, settings: TypewriterSettings): LineTiming {
+  const dialogueTimes = buildRevealTimes(plainText(dialogue), settings);
+  const secondaryTimes = buildRevealTimes(plainText(secondaryDialogue), settings);
+  const dialogueDuration = revealDuration(dialogueTimes);
+  return { dialogueTimes, secondaryTimes, dialogueDuration, duration: dialogueDuration + revealDuration(secondaryTimes) };
+}
+
+export function lineRevealAt(timing: LineTiming, elapsed: number) {
+  return {
+    dialogue: visibleCharacters(timing.dialogueTimes, elapsed),
+    secondary: visibleCharacters(timing.secondaryTimes, elapsed - timing.dialogueDuration),
+    finished: elapsed >= timing.duration,
+  };
+}